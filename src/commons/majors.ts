@@ -0,0 +1,180 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import type { UMDApiMajorListResponse } from "@/lib/majors"
+
+/*
+  Offline Copies of the UMD Major and Minor Lists, used when Neither the Portal
+  nor umd.io can Serve them. Identifiers are Local Slugs, so Match Entries by Name.
+*/
+const CATALOG_URL = "https://academiccatalog.umd.edu/undergraduate/"
+
+const COLLEGES = {
+    AGNR: "College of Agriculture and Natural Resources",
+    ARCH: "School of Architecture, Planning and Preservation",
+    ARHU: "College of Arts and Humanities",
+    BSOS: "College of Behavioral and Social Sciences",
+    BMGT: "Robert H. Smith School of Business",
+    CMNS: "College of Computer, Mathematical, and Natural Sciences",
+    EDUC: "College of Education",
+    ENGR: "A. James Clark School of Engineering",
+    INFO: "College of Information",
+    JOUR: "Philip Merrill College of Journalism",
+    SPHL: "School of Public Health",
+    PLCY: "School of Public Policy",
+    UGST: "Undergraduate Studies"
+}
+
+export const UMD_MAJOR_CATALOG_SNAPSHOT: UMDApiMajorListResponse[] = [
+    { major_id: "agnr-agricultural-and-resource-economics", name: "Agricultural and Resource Economics", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-agricultural-science-and-technology", name: "Agricultural Science and Technology", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-animal-sciences", name: "Animal Sciences", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-environmental-science-and-policy", name: "Environmental Science and Policy", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-environmental-science-and-technology", name: "Environmental Science and Technology", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-landscape-architecture", name: "Landscape Architecture", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-nutrition-and-food-science", name: "Nutrition and Food Science", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-plant-sciences", name: "Plant Sciences", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-veterinary-medicine", name: "Veterinary Medicine", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "arch-architecture", name: "Architecture", college: COLLEGES.ARCH, url: CATALOG_URL },
+    { major_id: "arch-real-estate-and-the-built-environment", name: "Real Estate and the Built Environment", college: COLLEGES.ARCH, url: CATALOG_URL },
+    { major_id: "arch-urban-studies-and-planning", name: "Urban Studies and Planning", college: COLLEGES.ARCH, url: CATALOG_URL },
+    { major_id: "arhu-american-studies", name: "American Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-art-history", name: "Art History", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-art-studio", name: "Art Studio", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-chinese", name: "Chinese", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-classics", name: "Classics", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-communication", name: "Communication", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-dance", name: "Dance", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-english-language-and-literature", name: "English Language and Literature", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-french-language-and-literature", name: "French Language and Literature", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-german-studies", name: "German Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-history", name: "History", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-immersive-media-design", name: "Immersive Media Design", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-italian-studies", name: "Italian Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-japanese", name: "Japanese", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-jewish-studies", name: "Jewish Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-linguistics", name: "Linguistics", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-music", name: "Music", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-persian-studies", name: "Persian Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-philosophy", name: "Philosophy", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-religions-of-the-ancient-middle-east", name: "Religions of the Ancient Middle East", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-romance-languages", name: "Romance Languages", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-russian-language-and-literature", name: "Russian Language and Literature", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-spanish-language-literatures-and-cultures", name: "Spanish Language, Literatures, and Cultures", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-theatre", name: "Theatre", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-women-gender-and-sexuality-studies", name: "Women, Gender, and Sexuality Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "bsos-african-american-and-africana-studies", name: "African American and Africana Studies", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-anthropology", name: "Anthropology", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-criminology-and-criminal-justice", name: "Criminology and Criminal Justice", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-economics", name: "Economics", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-geographical-sciences", name: "Geographical Sciences", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-government-and-politics", name: "Government and Politics", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-hearing-and-speech-sciences", name: "Hearing and Speech Sciences", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-psychology", name: "Psychology", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-sociology", name: "Sociology", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bmgt-accounting", name: "Accounting", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-finance", name: "Finance", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-information-systems", name: "Information Systems", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-international-business", name: "International Business", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-management", name: "Management", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-marketing", name: "Marketing", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-operations-management-and-business-analytics", name: "Operations Management and Business Analytics", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-supply-chain-management", name: "Supply Chain Management", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "cmns-astronomy", name: "Astronomy", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-atmospheric-and-oceanic-science", name: "Atmospheric and Oceanic Science", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-biochemistry", name: "Biochemistry", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-biological-sciences", name: "Biological Sciences", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-chemistry", name: "Chemistry", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-computer-science", name: "Computer Science", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-geology", name: "Geology", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-mathematics", name: "Mathematics", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-neuroscience", name: "Neuroscience", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-physical-sciences", name: "Physical Sciences", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-physics", name: "Physics", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-statistics", name: "Statistics", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "educ-early-childhood-early-childhood-special-education", name: "Early Childhood/Early Childhood Special Education", college: COLLEGES.EDUC, url: CATALOG_URL },
+    { major_id: "educ-elementary-education", name: "Elementary Education", college: COLLEGES.EDUC, url: CATALOG_URL },
+    { major_id: "educ-elementary-middle-special-education", name: "Elementary/Middle Special Education", college: COLLEGES.EDUC, url: CATALOG_URL },
+    { major_id: "educ-human-development", name: "Human Development", college: COLLEGES.EDUC, url: CATALOG_URL },
+    { major_id: "educ-middle-school-education", name: "Middle School Education", college: COLLEGES.EDUC, url: CATALOG_URL },
+    { major_id: "educ-secondary-education", name: "Secondary Education", college: COLLEGES.EDUC, url: CATALOG_URL },
+    { major_id: "engr-aerospace-engineering", name: "Aerospace Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-bioengineering", name: "Bioengineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-chemical-engineering", name: "Chemical Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-civil-engineering", name: "Civil Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-computer-engineering", name: "Computer Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-electrical-engineering", name: "Electrical Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-fire-protection-engineering", name: "Fire Protection Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-materials-science-and-engineering", name: "Materials Science and Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-mechanical-engineering", name: "Mechanical Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-robotics-and-autonomy", name: "Robotics and Autonomy", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "info-information-science", name: "Information Science", college: COLLEGES.INFO, url: CATALOG_URL },
+    { major_id: "info-social-data-science", name: "Social Data Science", college: COLLEGES.INFO, url: CATALOG_URL },
+    { major_id: "info-technology-and-information-design", name: "Technology and Information Design", college: COLLEGES.INFO, url: CATALOG_URL },
+    { major_id: "jour-journalism", name: "Journalism", college: COLLEGES.JOUR, url: CATALOG_URL },
+    { major_id: "sphl-community-health", name: "Community Health", college: COLLEGES.SPHL, url: CATALOG_URL },
+    { major_id: "sphl-family-science", name: "Family Science", college: COLLEGES.SPHL, url: CATALOG_URL },
+    { major_id: "sphl-kinesiology", name: "Kinesiology", college: COLLEGES.SPHL, url: CATALOG_URL },
+    { major_id: "sphl-public-health-practice", name: "Public Health Practice", college: COLLEGES.SPHL, url: CATALOG_URL },
+    { major_id: "sphl-public-health-science", name: "Public Health Science", college: COLLEGES.SPHL, url: CATALOG_URL },
+    { major_id: "plcy-public-policy", name: "Public Policy", college: COLLEGES.PLCY, url: CATALOG_URL },
+    { major_id: "ugst-individual-studies-program", name: "Individual Studies Program", college: COLLEGES.UGST, url: CATALOG_URL }
+]
+
+export const UMD_MINOR_CATALOG_SNAPSHOT: UMDApiMajorListResponse[] = [
+    { major_id: "agnr-sustainability-studies-minor", name: "Sustainability Studies", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "agnr-landscape-management-minor", name: "Landscape Management", college: COLLEGES.AGNR, url: CATALOG_URL },
+    { major_id: "arch-construction-project-management-minor", name: "Construction Project Management", college: COLLEGES.ARCH, url: CATALOG_URL },
+    { major_id: "arch-real-estate-development-minor", name: "Real Estate Development", college: COLLEGES.ARCH, url: CATALOG_URL },
+    { major_id: "arhu-arabic-studies-minor", name: "Arabic Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-art-history-minor", name: "Art History", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-creative-writing-minor", name: "Creative Writing", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-film-studies-minor", name: "Film Studies", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-history-minor", name: "History", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-linguistics-minor", name: "Linguistics", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-music-performance-minor", name: "Music Performance", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-philosophy-minor", name: "Philosophy", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-professional-writing-minor", name: "Professional Writing", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-rhetoric-minor", name: "Rhetoric", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "arhu-spanish-language-business-and-cultures-minor", name: "Spanish Language, Business, and Cultures", college: COLLEGES.ARHU, url: CATALOG_URL },
+    { major_id: "bsos-geographic-information-science-minor", name: "Geographic Information Science", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-global-poverty-minor", name: "Global Poverty", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-law-and-society-minor", name: "Law and Society", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-neuroscience-minor", name: "Neuroscience", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bsos-survey-methodology-minor", name: "Survey Methodology", college: COLLEGES.BSOS, url: CATALOG_URL },
+    { major_id: "bmgt-business-analytics-minor", name: "Business Analytics", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "bmgt-innovation-and-entrepreneurship-minor", name: "Innovation and Entrepreneurship", college: COLLEGES.BMGT, url: CATALOG_URL },
+    { major_id: "cmns-actuarial-mathematics-minor", name: "Actuarial Mathematics", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-astronomy-minor", name: "Astronomy", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-computer-science-minor", name: "Computer Science", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-mathematics-minor", name: "Mathematics", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-quantum-science-and-engineering-minor", name: "Quantum Science and Engineering", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "cmns-statistics-minor", name: "Statistics", college: COLLEGES.CMNS, url: CATALOG_URL },
+    { major_id: "educ-counseling-and-leadership-minor", name: "Counseling and Leadership", college: COLLEGES.EDUC, url: CATALOG_URL },
+    { major_id: "engr-engineering-leadership-development-minor", name: "Engineering Leadership Development", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-nuclear-engineering-minor", name: "Nuclear Engineering", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-robotics-and-autonomous-systems-minor", name: "Robotics and Autonomous Systems", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "engr-technology-entrepreneurship-and-corporate-innovation-minor", name: "Technology Entrepreneurship and Corporate Innovation", college: COLLEGES.ENGR, url: CATALOG_URL },
+    { major_id: "info-data-science-minor", name: "Data Science", college: COLLEGES.INFO, url: CATALOG_URL },
+    { major_id: "info-information-risk-management-ethics-and-privacy-minor", name: "Information Risk Management, Ethics, and Privacy", college: COLLEGES.INFO, url: CATALOG_URL },
+    { major_id: "info-technology-innovation-leadership-minor", name: "Technology Innovation Leadership", college: COLLEGES.INFO, url: CATALOG_URL },
+    { major_id: "jour-journalism-minor", name: "Journalism", college: COLLEGES.JOUR, url: CATALOG_URL },
+    { major_id: "sphl-public-health-science-minor", name: "Public Health Science", college: COLLEGES.SPHL, url: CATALOG_URL },
+    { major_id: "plcy-public-leadership-minor", name: "Public Leadership", college: COLLEGES.PLCY, url: CATALOG_URL },
+    { major_id: "ugst-global-studies-minor", name: "Global Studies", college: COLLEGES.UGST, url: CATALOG_URL }
+]
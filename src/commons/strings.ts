@@ -1 +1,2 @@
-export const ORGANIZATION_NAME = "App Dev Club"
\ No newline at end of file
+export const ORGANIZATION_NAME = "App Dev Club"
+export const ORGANIZATION_WIKI_URL = "https://wiki.appdevclub.com"
\ No newline at end of file
@@ -21,6 +21,7 @@ import * as React from "react"
 import {
     BookOpen,
     Building2,
+    ClipboardListIcon,
     FingerprintIcon,
     FolderGit2Icon,
     LifeBuoyIcon,
@@ -70,6 +71,12 @@ const data = {
                     title: "Org Chart",
                     url: "/org/orgchart",
                 },
+                {
+                    icon: ClipboardListIcon,
+                    title: "Applicant Profile",
+                    url: "/org/applicantprofile",
+                    adminOnly: true,
+                },
             ],
         },
         {
@@ -142,7 +149,10 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar> &
                 </SidebarMenu>
             </SidebarHeader>
             <SidebarContent>
-                <NavMain items={data.navMain} />
+                <NavMain items={data.navMain.map((section) => ({
+                    ...section,
+                    items: section.items.filter((item) => !("adminOnly" in item) || props.userInfo.isAdmin)
+                }))} />
             </SidebarContent>
             <SidebarFooter>
                 <NavUser user={{
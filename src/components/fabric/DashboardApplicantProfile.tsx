@@ -0,0 +1,392 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import React from "react"
+import { toast } from "sonner"
+import { ArrowDownIcon, ArrowUpIcon, Loader2, LockIcon, PlusIcon, SaveIcon, Trash2Icon } from "lucide-react"
+import { Button } from "../ui/button"
+import { Card, CardContent } from "../ui/card"
+import { Input } from "../ui/input"
+import { Label } from "../ui/label"
+import { Switch } from "../ui/switch"
+import { Textarea } from "../ui/textarea"
+import { Skeleton } from "../ui/skeleton"
+import { Alert, AlertDescription, AlertTitle } from "../ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select"
+import { fetchProfileSchema, PROFILE_FIELD_KINDS, saveProfileSchema, type ProfileField, type ProfileFieldKind, type ProfileFieldValidation } from "@/lib/profile"
+
+/* Editor Rows carry Whether the Field was Saved Before, since Saved Ids key Existing Answers */
+interface EditableProfileField {
+    field: ProfileField,
+    isSaved: boolean
+}
+
+const toFieldId = (label: string) => {
+    const words = label.toLowerCase().replace(/[^a-z0-9\s]/g, "").split(/\s+/).filter(Boolean).slice(0, 4)
+    return words.map((word, idx) => idx === 0 ? word : word[0].toUpperCase() + word.slice(1)).join("")
+}
+
+const findSchemaError = (fields: ProfileField[], retiredIds: string[]) => {
+    const seenIds = new Set<string>()
+    for (const field of fields) {
+        if (!field.label.trim())
+            return "Every field needs a label."
+
+        if (!/^[a-zA-Z][a-zA-Z0-9]*$/.test(field.id))
+            return `"${field.label}" needs an id made of letters and numbers.`
+
+        if (seenIds.has(field.id))
+            return `The id "${field.id}" is used more than once.`
+
+        if (retiredIds.includes(field.id))
+            return `The id "${field.id}" belonged to a removed field and still holds its answers, please choose another.`
+        seenIds.add(field.id)
+
+        if ((field.kind === "select" || field.kind === "multiselect") && !field.options?.length)
+            return `"${field.label}" needs at least one option.`
+    }
+
+    return null
+}
+
+export const DashboardApplicantProfile = ({ readOnly }: { readOnly: boolean }) => {
+    const [fields, setFields] = React.useState<EditableProfileField[]>([])
+    const [retiredIds, setRetiredIds] = React.useState<string[]>([])
+    const [loading, setLoading] = React.useState(true)
+    const [saving, setSaving] = React.useState(false)
+    const [isDirty, setIsDirty] = React.useState(false)
+
+    const loadSchema = () => {
+        setLoading(true)
+        fetchProfileSchema()
+            .then((schema) => {
+                setFields(schema.fields.map(field => ({ field, isSaved: true })))
+                setRetiredIds(schema.retiredIds)
+                setIsDirty(false)
+            })
+            .catch((e) => toast.error("Failed to Fetch Applicant Profile Schema: " + e.message))
+            .finally(() => setLoading(false))
+    }
+
+    React.useEffect(() => {
+        loadSchema()
+    }, [])
+
+    const updateField = (index: number, changes: Partial<ProfileField>) => {
+        setFields(prev => prev.map((row, idx) => idx === index ? { ...row, field: { ...row.field, ...changes } } : row))
+        setIsDirty(true)
+    }
+
+    const updateValidation = (index: number, changes: Partial<ProfileFieldValidation>) => {
+        setFields(prev => prev.map((row, idx) => idx === index ? { ...row, field: { ...row.field, validation: { ...row.field.validation, ...changes } } } : row))
+        setIsDirty(true)
+    }
+
+    const moveField = (index: number, offset: number) => {
+        setFields(prev => {
+            const next = [...prev]
+            const [moved] = next.splice(index, 1)
+            next.splice(index + offset, 0, moved)
+            return next
+        })
+        setIsDirty(true)
+    }
+
+    const removeField = (index: number) => {
+        const removed = fields[index]
+        if (removed.isSaved)
+            setRetiredIds(prev => [...prev, removed.field.id])
+
+        setFields(prev => prev.filter((_, idx) => idx !== index))
+        setIsDirty(true)
+    }
+
+    const addField = () => {
+        setFields(prev => [...prev, { field: { id: "", label: "", kind: "text" }, isSaved: false }])
+        setIsDirty(true)
+    }
+
+    const handleSave = () => {
+        /* Blank Options and Sites are Kept while Editing, Drop them on Save */
+        const schema = fields.map(({ field }) => {
+            const allowedHosts = field.validation?.allowedHosts?.map(host => host.trim().toLowerCase()).filter(Boolean)
+            return {
+                ...field,
+                options: field.options?.map(option => option.trim()).filter(Boolean),
+                validation: field.validation && { ...field.validation, allowedHosts: allowedHosts?.length ? allowedHosts : undefined }
+            }
+        })
+        const error = findSchemaError(schema, retiredIds)
+        if (error) {
+            toast.error(error)
+            return
+        }
+
+        setSaving(true)
+        saveProfileSchema(schema)
+            .then((saved) => {
+                setFields(saved.fields.map(field => ({ field, isSaved: true })))
+                setRetiredIds(prev => [...new Set([...prev, ...saved.retiredIds])])
+                setIsDirty(false)
+                toast.success("Applicant Profile Updated")
+            })
+            .catch((e) => toast.error("Failed to Save Applicant Profile: " + e.message))
+            .finally(() => setSaving(false))
+    }
+
+    return (
+        <div className="flex flex-col w-full">
+            <h1 className="scroll-m-20 text-4xl font-extrabold tracking-tight text-balance">Applicant Profile</h1>
+            <h4 className="text-xl text-muted-foreground">Questions every applicant answers once, shared across all team applications</h4>
+
+            {readOnly ? (
+                <Alert className="my-4">
+                    <LockIcon />
+                    <AlertTitle>View Only</AlertTitle>
+                    <AlertDescription>
+                        Only org admins can change the applicant profile. Reach out to an admin if a field needs updating.
+                    </AlertDescription>
+                </Alert>
+            ) : (
+                <>
+                    <div className="flex items-center gap-2 py-4 mt-2">
+                        <Button variant="outline" onClick={addField} disabled={loading}><PlusIcon /> Add Field</Button>
+                        <div className="flex-grow-1"></div>
+                        <Button variant="ghost" onClick={loadSchema} disabled={loading || saving || !isDirty}>Discard Changes</Button>
+                        <Button onClick={handleSave} disabled={loading || saving || !isDirty}>
+                            {saving ? <Loader2 className="animate-spin" /> : <SaveIcon />}
+                            Save Changes
+                        </Button>
+                    </div>
+
+                    <Alert className="mb-4">
+                        <LockIcon />
+                        <AlertTitle>Field Ids and Types are Locked Once Saved</AlertTitle>
+                        <AlertDescription>
+                            Applicants' existing answers are stored under each field's id. Removing a field hides it from the form but keeps past answers, so its id can't be reused.
+                        </AlertDescription>
+                    </Alert>
+                </>
+            )}
+
+            {loading ? (
+                <div className="flex flex-col gap-3">
+                    <Skeleton className="h-40 w-full" />
+                    <Skeleton className="h-40 w-full" />
+                </div>
+            ) : (
+                /* A Disabled Fieldset Locks every Input, Select and Button in the Editors */
+                <fieldset disabled={readOnly} className="flex flex-col gap-3">
+                    {fields.map((row, index) => (
+                        <ProfileFieldEditor
+                            key={index}
+                            field={row.field}
+                            isSaved={row.isSaved}
+                            isFirst={index === 0}
+                            isLast={index === fields.length - 1}
+                            onChange={(changes) => updateField(index, changes)}
+                            onValidationChange={(changes) => updateValidation(index, changes)}
+                            onMove={(offset) => moveField(index, offset)}
+                            onRemove={() => removeField(index)}
+                        />
+                    ))}
+
+                    {fields.length === 0 && (
+                        <p className="text-sm text-muted-foreground py-8 text-center">No fields yet. Applicants will only be asked role questions.</p>
+                    )}
+                </fieldset>
+            )}
+        </div>
+    )
+}
+
+const ProfileFieldEditor = (props: {
+    field: ProfileField,
+    isSaved: boolean,
+    isFirst: boolean,
+    isLast: boolean,
+    onChange: (changes: Partial<ProfileField>) => void,
+    onValidationChange: (changes: Partial<ProfileFieldValidation>) => void,
+    onMove: (offset: number) => void,
+    onRemove: () => void
+}) => {
+    const { field } = props
+    const rules = field.validation ?? {}
+    const idPrefix = `schema-${field.id || "new"}`
+    const optionalNumber = (value: string) => value === "" ? undefined : Number(value)
+
+    return (
+        <Card>
+            <CardContent className="flex flex-col gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="flex flex-col gap-2 md:col-span-2">
+                        <Label htmlFor={`${idPrefix}-label`}>Label</Label>
+                        <Input
+                            id={`${idPrefix}-label`}
+                            value={field.label}
+                            placeholder="Question shown to applicants"
+                            onChange={(e) => props.onChange(props.isSaved ? { label: e.target.value } : { label: e.target.value, id: toFieldId(e.target.value) })}
+                        />
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor={`${idPrefix}-kind`}>Type</Label>
+                        {/* Existing Answers were Validated against the Saved Type */}
+                        <Select value={field.kind} disabled={props.isSaved} onValueChange={(kind) => props.onChange({ kind: kind as ProfileFieldKind })}>
+                            <SelectTrigger id={`${idPrefix}-kind`} className="w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PROFILE_FIELD_KINDS.map(({ kind, label }) => (
+                                    <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor={`${idPrefix}-id`}>Id</Label>
+                        <Input
+                            id={`${idPrefix}-id`}
+                            value={field.id}
+                            disabled={props.isSaved}
+                            className="font-mono"
+                            onChange={(e) => props.onChange({ id: e.target.value })}
+                        />
+                    </div>
+
+                    <div className="flex flex-col gap-2 md:col-span-2">
+                        <Label htmlFor={`${idPrefix}-placeholder`}>Placeholder</Label>
+                        <Input
+                            id={`${idPrefix}-placeholder`}
+                            value={field.placeholder ?? ""}
+                            onChange={(e) => props.onChange({ placeholder: e.target.value || undefined })}
+                        />
+                    </div>
+
+                    <div className="flex flex-col gap-2 md:col-span-3">
+                        <Label htmlFor={`${idPrefix}-help`}>Help Text</Label>
+                        <Input
+                            id={`${idPrefix}-help`}
+                            value={field.helpText ?? ""}
+                            onChange={(e) => props.onChange({ helpText: e.target.value || undefined })}
+                        />
+                    </div>
+
+                    {(field.kind === "select" || field.kind === "multiselect") && (
+                        <div className="flex flex-col gap-2 md:col-span-3">
+                            <Label htmlFor={`${idPrefix}-options`}>Options (One per Line)</Label>
+                            <Textarea
+                                id={`${idPrefix}-options`}
+                                value={field.options?.join("\n") ?? ""}
+                                onChange={(e) => props.onChange({ options: e.target.value.split("\n") })}
+                            />
+                        </div>
+                    )}
+
+                    {field.kind === "longtext" && (
+                        <div className="flex flex-col gap-2">
+                            <Label htmlFor={`${idPrefix}-maxwords`}>Word Limit</Label>
+                            <Input
+                                id={`${idPrefix}-maxwords`}
+                                type="number"
+                                min={1}
+                                value={rules.maxWords ?? ""}
+                                onChange={(e) => props.onValidationChange({ maxWords: optionalNumber(e.target.value) })}
+                            />
+                        </div>
+                    )}
+
+                    {(field.kind === "number" || field.kind === "date") && (
+                        <>
+                            <div className="flex flex-col gap-2">
+                                <Label htmlFor={`${idPrefix}-min`}>Minimum</Label>
+                                <Input
+                                    id={`${idPrefix}-min`}
+                                    type={field.kind}
+                                    value={rules.min ?? ""}
+                                    onChange={(e) => props.onValidationChange({ min: field.kind === "number" ? optionalNumber(e.target.value) : e.target.value || undefined })}
+                                />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <Label htmlFor={`${idPrefix}-max`}>Maximum</Label>
+                                <Input
+                                    id={`${idPrefix}-max`}
+                                    type={field.kind}
+                                    value={rules.max ?? ""}
+                                    onChange={(e) => props.onValidationChange({ max: field.kind === "number" ? optionalNumber(e.target.value) : e.target.value || undefined })}
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    {field.kind === "url" && (
+                        <div className="flex flex-col gap-2 md:col-span-2">
+                            <Label htmlFor={`${idPrefix}-hosts`}>Allowed Sites (Comma Separated)</Label>
+                            <Input
+                                id={`${idPrefix}-hosts`}
+                                placeholder="Any site"
+                                value={rules.allowedHosts?.join(",") ?? ""}
+                                onChange={(e) => props.onValidationChange({ allowedHosts: e.target.value.split(",") })}
+                            />
+                        </div>
+                    )}
+
+                    {field.kind === "file" && (
+                        <>
+                            <div className="flex flex-col gap-2">
+                                <Label htmlFor={`${idPrefix}-accept`}>Accepted Extensions</Label>
+                                <Input
+                                    id={`${idPrefix}-accept`}
+                                    placeholder=".pdf"
+                                    value={rules.accept ?? ""}
+                                    onChange={(e) => props.onValidationChange({ accept: e.target.value || undefined })}
+                                />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <Label htmlFor={`${idPrefix}-size`}>Max Size (MB)</Label>
+                                <Input
+                                    id={`${idPrefix}-size`}
+                                    type="number"
+                                    min={1}
+                                    placeholder="10"
+                                    value={rules.maxSizeMB ?? ""}
+                                    onChange={(e) => props.onValidationChange({ maxSizeMB: optionalNumber(e.target.value) })}
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                    <Switch
+                        id={`${idPrefix}-required`}
+                        checked={!!rules.required}
+                        onCheckedChange={(required) => props.onValidationChange({ required })}
+                    />
+                    <Label htmlFor={`${idPrefix}-required`}>Required</Label>
+
+                    <div className="flex-grow-1"></div>
+                    <Button variant="ghost" size="icon" aria-label="Move Up" disabled={props.isFirst} onClick={() => props.onMove(-1)}><ArrowUpIcon /></Button>
+                    <Button variant="ghost" size="icon" aria-label="Move Down" disabled={props.isLast} onClick={() => props.onMove(1)}><ArrowDownIcon /></Button>
+                    <Button variant="ghost" size="icon" aria-label="Remove Field" className="text-destructive" onClick={props.onRemove}><Trash2Icon /></Button>
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
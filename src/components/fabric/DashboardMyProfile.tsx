@@ -0,0 +1,306 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { isValidPhoneNumber } from 'react-phone-number-input';
+import { CheckCircle2, CircleDot, ExternalLink, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { PEOPLEPORTAL_SERVER_ENDPOINT } from '@/commons/config';
+import { saveMemberAvatar } from '@/lib/avatar';
+import { fetchMajorCatalog, type MajorCatalog, type UMDApiMajorListResponse } from '@/lib/majors';
+import { cn } from '@/lib/utils';
+import { AvatarUploader } from '@/components/fragments/AvatarUploader';
+import { MajorCatalogPicker } from '@/components/fragments/MajorCatalogPicker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PhoneInput } from '@/components/ui/phone-input';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { UserInformationDetail } from './DashboardPeopleInfo';
+
+type EditableProfileField = "major" | "expectedGrad" | "phoneNumber";
+type ProfileFieldValues = { [field in EditableProfileField]: string };
+type ProfileFieldErrors = { [field in EditableProfileField]?: string };
+
+interface APIProfileUpdateError {
+    message?: string;
+    errors?: { field: string, message: string }[];
+}
+
+const PROFILE_FIELD_LABELS: { [field in EditableProfileField]: string } = {
+    major: "Major",
+    expectedGrad: "Expected Graduation",
+    phoneNumber: "Phone Number"
+};
+
+function validateProfileField(field: EditableProfileField, value: string): string | undefined {
+    switch (field) {
+        case "major":
+            return value ? undefined : "Please choose your major.";
+
+        case "expectedGrad": {
+            const date = new Date(value);
+            if (!value || isNaN(date.getTime()))
+                return "Please enter a valid date.";
+
+            const yearsAway = date.getFullYear() - new Date().getFullYear();
+            return (yearsAway < -10 || yearsAway > 8) ? "Expected graduation looks out of range." : undefined;
+        }
+
+        case "phoneNumber":
+            return (value && isValidPhoneNumber(value)) ? undefined : "Please enter a valid phone number.";
+    }
+}
+
+// Sub-component: Per-Field Save State, shown next to each Label
+const FieldSaveState = ({ dirty, saved }: { dirty: boolean, saved: boolean }) => {
+    if (dirty) {
+        return (
+            <span className="flex items-center gap-1 text-xs text-amber-600">
+                <CircleDot className="h-3 w-3" />
+                Unsaved
+            </span>
+        );
+    }
+
+    return saved ? (
+        <span className="flex items-center gap-1 text-xs text-green-600">
+            <CheckCircle2 className="h-3 w-3" />
+            Saved
+        </span>
+    ) : null;
+};
+
+export const DashboardMyProfile = () => {
+    const [user, setUser] = useState<UserInformationDetail | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [majorCatalog, setMajorCatalog] = useState<MajorCatalog>();
+
+    /* Last Values the Server Confirmed, Compared against to find Dirty Fields */
+    const [savedValues, setSavedValues] = useState<ProfileFieldValues>({ major: "", expectedGrad: "", phoneNumber: "" });
+    const [values, setValues] = useState<ProfileFieldValues>({ major: "", expectedGrad: "", phoneNumber: "" });
+    const [errors, setErrors] = useState<ProfileFieldErrors>({});
+    const [recentlySaved, setRecentlySaved] = useState<EditableProfileField[]>([]);
+
+    useEffect(() => {
+        fetchMajorCatalog().then(setMajorCatalog);
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/me`)
+            .then(async (res) => {
+                if (!res.ok)
+                    throw new Error(res.statusText);
+
+                const userData: UserInformationDetail = await res.json();
+                const fieldValues = {
+                    major: userData.attributes?.major ?? "",
+                    /* Stored as an ISO Timestamp, the Date Input wants yyyy-MM-dd */
+                    expectedGrad: (userData.attributes?.expectedGrad ?? "").slice(0, 10),
+                    phoneNumber: userData.attributes?.phoneNumber ?? ""
+                };
+
+                setUser(userData);
+                setSavedValues(fieldValues);
+                setValues(fieldValues);
+            })
+            .catch((e) => {
+                toast.error("Failed to Fetch your Profile: " + e.message);
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const dirtyFields = (Object.keys(values) as EditableProfileField[]).filter((field) => values[field] !== savedValues[field]);
+
+    const updateField = (field: EditableProfileField, value: string) => {
+        setValues((existing) => ({ ...existing, [field]: value }));
+        setErrors((existing) => ({ ...existing, [field]: undefined }));
+        setRecentlySaved((existing) => existing.filter((el) => el !== field));
+    };
+
+    const handleSave = () => {
+        if (!user)
+            return;
+
+        const validationErrors: ProfileFieldErrors = {};
+        for (const field of dirtyFields) {
+            const error = validateProfileField(field, values[field]);
+            if (error)
+                validationErrors[field] = error;
+        }
+
+        if (Object.keys(validationErrors).length > 0) {
+            setErrors(validationErrors);
+            return;
+        }
+
+        /* Only Send what Changed, so a Stale Tab can't Overwrite Other Fields */
+        const changes = Object.fromEntries(dirtyFields.map((field) => [field, values[field]]));
+        setSaving(true);
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/${user.pk}/attributes`, {
+            method: "PATCH",
+            headers: {
+                'Content-Type': 'application/json'
+            },
+
+            body: JSON.stringify(changes)
+        }).then(async (res) => {
+            if (!res.ok) {
+                const error = await res.json().catch(() => undefined) as APIProfileUpdateError | undefined;
+                const fieldErrors = (error?.errors ?? []).filter((el) => el.field in PROFILE_FIELD_LABELS);
+                if (fieldErrors.length > 0) {
+                    setErrors(Object.fromEntries(fieldErrors.map((el) => [el.field, el.message])));
+                    return;
+                }
+
+                throw new Error(error?.message ?? res.statusText);
+            }
+
+            setSavedValues((existing) => ({ ...existing, ...changes }));
+            setRecentlySaved(dirtyFields);
+            toast.success("Profile Updated!");
+        }).catch((e) => {
+            toast.error("Failed to Update Profile: " + e.message);
+        }).finally(() => setSaving(false));
+    };
+
+    const handleAvatarUploaded = (avatarKey: string, previewUrl: string) => {
+        if (!user)
+            return;
+
+        saveMemberAvatar(user.pk, avatarKey).then((saved) => {
+            if (saved)
+                setUser({ ...user, avatar: previewUrl });
+        });
+    };
+
+    if (loading) {
+        return (
+            <div className="flex flex-col md:flex-row gap-8 p-6">
+                <Skeleton className="h-48 w-48 rounded-full" />
+                <div className="flex-1 space-y-4">
+                    <Skeleton className="h-16 w-full" />
+                    <Skeleton className="h-16 w-full" />
+                    <Skeleton className="h-16 w-full" />
+                </div>
+            </div>
+        );
+    }
+
+    if (!user) {
+        return <div className="p-8 text-center text-muted-foreground">We couldn't load your profile.</div>;
+    }
+
+    /* Profiles Store the Major by Name, so Match it back to a Catalog Entry */
+    const selectedMajor: UMDApiMajorListResponse[] = values.major ?
+        [majorCatalog?.majors.find((el) => el.name === values.major) ?? { name: values.major, college: "", major_id: values.major, url: "" }] :
+        [];
+
+    const initials = user.name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
+    const renderFieldLabel = (field: EditableProfileField) => (
+        <div className="flex items-center justify-between">
+            <Label>{PROFILE_FIELD_LABELS[field]}</Label>
+            <FieldSaveState dirty={dirtyFields.includes(field)} saved={recentlySaved.includes(field)} />
+        </div>
+    );
+
+    const renderFieldError = (field: EditableProfileField) => errors[field] && (
+        <span className="text-xs text-red-500 font-medium">{errors[field]}</span>
+    );
+
+    return (
+        <div className="flex flex-col md:flex-row gap-8 p-6 h-full overflow-y-auto">
+            <div className="flex flex-col items-center gap-3 md:w-[260px] shrink-0">
+                <AvatarUploader
+                    uploadUrlEndpoint={`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/avatar/upload-url`}
+                    defaultPreviewUrl={user.avatar}
+                    fallback={<span className="text-3xl text-muted-foreground">{initials}</span>}
+                    onUploaded={handleAvatarUploaded}
+                />
+
+                <div className="text-center mt-2">
+                    <h1 className="text-2xl font-bold tracking-tight">{user.name}</h1>
+                    <p className="text-sm text-muted-foreground">{user.email}</p>
+                </div>
+
+                <Button variant="link" size="sm" asChild>
+                    <Link to={`/org/people/${user.pk}`}>
+                        <ExternalLink className="h-4 w-4" />
+                        View Public Profile
+                    </Link>
+                </Button>
+            </div>
+
+            <Card className="flex-1 min-w-0 h-fit">
+                <CardHeader>
+                    <CardTitle>My Profile</CardTitle>
+                    <CardDescription>Keep your academic and contact details up to date for your teams.</CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-5 max-w-lg">
+                    <div className="grid gap-2">
+                        {renderFieldLabel("major")}
+                        <MajorCatalogPicker
+                            catalog={majorCatalog?.majors ?? []}
+                            selected={selectedMajor}
+                            onSelectedChange={(majors) => updateField("major", majors[0]?.name ?? "")}
+                            maxSelections={1}
+                            placeholder={majorCatalog ? "No Major Chosen" : "Loading Majors..."}
+                            searchPlaceholder="Search UMD Major"
+                        />
+                        {renderFieldError("major")}
+                    </div>
+
+                    <div className="grid gap-2">
+                        {renderFieldLabel("expectedGrad")}
+                        <Input
+                            type="date"
+                            value={values.expectedGrad}
+                            aria-invalid={errors.expectedGrad != undefined}
+                            onChange={(e) => updateField("expectedGrad", e.target.value)}
+                        />
+                        {renderFieldError("expectedGrad")}
+                    </div>
+
+                    <div className="grid gap-2">
+                        {renderFieldLabel("phoneNumber")}
+                        <PhoneInput
+                            defaultCountry="US"
+                            placeholder="Enter phone number"
+                            value={values.phoneNumber}
+                            onChange={(number) => updateField("phoneNumber", number ?? "")}
+                        />
+                        {renderFieldError("phoneNumber")}
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                        <Button onClick={handleSave} disabled={dirtyFields.length == 0 || saving}>
+                            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                            Save Changes
+                        </Button>
+                        <Button variant="ghost" disabled={dirtyFields.length == 0 || saving} onClick={() => { setValues(savedValues); setErrors({}); }}>
+                            Discard
+                        </Button>
+                        <span className={cn("text-xs text-muted-foreground", dirtyFields.length == 0 && "hidden")}>
+                            {dirtyFields.length} unsaved {dirtyFields.length == 1 ? "change" : "changes"}
+                        </span>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
@@ -22,9 +22,13 @@ import { Card, CardContent, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Mail, Phone, Calendar, GraduationCap, Briefcase, ShieldCheck, MapPin, Clock, Tag, AlertCircle, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AvatarUploader } from '@/components/fragments/AvatarUploader';
+import { Mail, Phone, Calendar, GraduationCap, Briefcase, ShieldCheck, MapPin, Clock, Tag, AlertCircle, Users, Camera, Pencil } from 'lucide-react';
 import { PEOPLEPORTAL_SERVER_ENDPOINT } from '@/commons/config';
 import { format, formatDistanceToNow } from 'date-fns';
+import { saveMemberAvatar } from '@/lib/avatar';
 import { cn } from '@/lib/utils';
 
 // --- Interfaces matching the Backend ---
@@ -56,7 +60,7 @@ interface TeamAttributeDefinition {
     description: string;
 }
 
-interface UserAttributeDefinition {
+export interface UserAttributeDefinition {
     major: string;
     expectedGrad: string;
     phoneNumber: string;
@@ -76,7 +80,7 @@ interface UserInformationBrief {
     avatar: string;
 }
 
-interface UserInformationDetail extends UserInformationBrief {
+export interface UserInformationDetail extends UserInformationBrief {
     groups: string[];
     last_login: string;
     type: string;
@@ -119,10 +123,17 @@ const InfoItem = ({ icon: Icon, label, value, href, className }: { icon: React.E
     </div>
 );
 
-export const DashboardPeopleInfo = () => {
+interface DashboardPeopleInfoProps {
+    /* Signed-in User, whose own Profile becomes Editable */
+    currentUserEmail?: string;
+}
+
+export const DashboardPeopleInfo = (props: DashboardPeopleInfoProps) => {
     const { userPk } = useParams<{ userPk: string }>();
     const navigate = useNavigate();
     const [user, setUser] = useState<UserInformationDetail | null>(null);
+    const [avatarEditorOpen, setAvatarEditorOpen] = useState(false);
+    const [avatarUploading, setAvatarUploading] = useState(false);
     const [userTeamsMap, setUserTeamsMap] = useState<Map<string, TeamInformationBrief>>(new Map());
     const [loading, setLoading] = useState(true);
 
@@ -181,6 +192,17 @@ export const DashboardPeopleInfo = () => {
     }
 
     const { attributes } = user;
+    const isOwnProfile = props.currentUserEmail === user.email;
+
+    const handleAvatarUploaded = (avatarKey: string, previewUrl: string) => {
+        saveMemberAvatar(user.pk, avatarKey).then((saved) => {
+            if (!saved)
+                return;
+
+            setUser({ ...user, avatar: previewUrl });
+            setAvatarEditorOpen(false);
+        });
+    };
     const initials = user.name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
 
     // Build role entries from attributes.roles, looking up team info from map
@@ -205,6 +227,19 @@ export const DashboardPeopleInfo = () => {
                             <AvatarFallback className="text-5xl text-muted-foreground">{initials}</AvatarFallback>
                         </Avatar>
 
+                        {isOwnProfile && (
+                            <div className="flex gap-2">
+                                <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setAvatarEditorOpen(true)}>
+                                    <Camera className="h-4 w-4" />
+                                    Change Photo
+                                </Button>
+                                <Button variant="outline" size="sm" className="gap-1.5" onClick={() => navigate("/profile")}>
+                                    <Pencil className="h-4 w-4" />
+                                    Edit Profile
+                                </Button>
+                            </div>
+                        )}
+
                         <div className="space-y-0.5 mt-2 w-full">
                             <h1 className="text-2xl font-bold tracking-tight text-foreground break-words leading-tight">{user.name}</h1>
                             <p className="text-base text-muted-foreground font-mono break-all">{user.username}</p>
@@ -250,6 +285,23 @@ export const DashboardPeopleInfo = () => {
                 </div>
             </div>
 
+            <Dialog open={avatarEditorOpen} onOpenChange={(open) => !avatarUploading && setAvatarEditorOpen(open)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Change Profile Picture</DialogTitle>
+                        <DialogDescription>Your new picture is shown across the People Portal once it's uploaded.</DialogDescription>
+                    </DialogHeader>
+                    <AvatarUploader
+                        className="py-4"
+                        uploadUrlEndpoint={`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/avatar/upload-url`}
+                        defaultPreviewUrl={user.avatar}
+                        fallback={<span className="text-3xl text-muted-foreground">{initials}</span>}
+                        onUploadingChange={setAvatarUploading}
+                        onUploaded={handleAvatarUploaded}
+                    />
+                </DialogContent>
+            </Dialog>
+
             {/* Right Column: Main Content */}
             <div className="flex-1 min-w-0 space-y-6">
 
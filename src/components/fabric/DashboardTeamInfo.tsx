@@ -16,7 +16,7 @@
   along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { BanIcon, Check, ChevronsUpDown, ExternalLinkIcon, KeyRoundIcon, Loader2Icon, NotebookPenIcon, PencilIcon, RefreshCcwIcon, SearchIcon, SettingsIcon, SquarePlusIcon, Trash2Icon, TriangleAlertIcon, User2Icon, UserPlus2Icon, Users2Icon, WorkflowIcon } from "lucide-react"
+import { ArrowLeftIcon, BanIcon, CalendarClockIcon, Check, ChevronsUpDown, ExternalLinkIcon, EyeIcon, FileSpreadsheetIcon, KeyRoundIcon, Loader2Icon, MailIcon, MoreHorizontalIcon, NotebookPenIcon, PencilIcon, RefreshCcwIcon, SearchIcon, SendIcon, SettingsIcon, SquarePlusIcon, Trash2Icon, TriangleAlertIcon, UploadIcon, User2Icon, UserPlus2Icon, Users2Icon, WorkflowIcon } from "lucide-react"
 import { Button } from "../ui/button"
 import React from "react";
 import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config";
@@ -38,6 +38,14 @@ import { Alert, AlertDescription, AlertTitle } from "../ui/alert";
 import { ProgressUpdateDialog } from "../fragments/ProgressUpdateDialog";
 import { SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarMenu, SidebarMenuButton, SidebarMenuItem } from "../ui/sidebar";
 import { Switch } from "../ui/switch";
+import { Badge } from "../ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "../ui/dropdown-menu";
+import { format, formatDistanceToNow } from "date-fns";
+import { Checkbox } from "../ui/checkbox";
+import { Textarea } from "../ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { parseDelimitedText, type DelimitedTable } from "@/lib/csv";
 
 export interface TeamInfoResponse {
     team: TeamInfo,
@@ -85,6 +93,80 @@ interface RootTeamSettingMap {
     }
 }
 
+type TeamInviteStatus = "sent" | "opened" | "in_progress" | "completed" | "expired"
+
+interface TeamInvite {
+    pk: string,
+    inviteeName: string,
+    inviteeEmail: string,
+    roleTitle: string,
+    subteamPk: string,
+    status: TeamInviteStatus,
+    inviterName: string,
+    createdAt: string,
+    expiresAt: string,
+    /* Title of the Onboarding Stage the Invitee last Reached */
+    currentStage?: string
+}
+
+const INVITE_STATUS_STYLES: { [status in TeamInviteStatus]: { label: string, className: string } } = {
+    sent: { label: "Sent", className: "text-blue-700 bg-blue-50 border-blue-200" },
+    opened: { label: "Opened", className: "text-purple-700 bg-purple-50 border-purple-200" },
+    in_progress: { label: "In Progress", className: "text-orange-700 bg-orange-50 border-orange-200" },
+    completed: { label: "Completed", className: "text-green-700 bg-green-50 border-green-200" },
+    expired: { label: "Expired", className: "text-red-700 bg-red-50 border-red-200" }
+}
+
+const INVITE_EXTENSION_DAYS = 7
+
+type BulkInviteStep = "import" | "map" | "preview" | "send"
+type BulkInviteField = "name" | "email" | "roleTitle" | "subteam"
+type BulkInviteColumnMapping = { [field in BulkInviteField]?: number }
+
+interface BulkInviteRow {
+    /* Row Number as the Lead Sees it in their Spreadsheet */
+    line: number,
+    name: string,
+    email: string,
+    roleTitle: string,
+    subteam?: TeamInfo,
+    existingMember?: UserInformationBrief,
+    problems: string[],
+    included: boolean,
+    result?: { status: "sending" | "sent" | "failed", message?: string }
+}
+
+const BULK_INVITE_FIELDS: { field: BulkInviteField, label: string, required: boolean, aliases: string[] }[] = [
+    { field: "name", label: "Name", required: true, aliases: ["name", "full name", "candidate", "invitee", "invitee name"] },
+    { field: "email", label: "Email Address", required: true, aliases: ["email", "e-mail", "email address", "mail", "terpmail"] },
+    { field: "roleTitle", label: "Role Title", required: false, aliases: ["role", "role title", "title", "position"] },
+    { field: "subteam", label: "Subteam", required: false, aliases: ["subteam", "sub team", "team", "group", "track"] }
+]
+
+/* Radix Select can't use an Empty String as a Value */
+const BULK_INVITE_UNMAPPED = "unmapped"
+const BULK_INVITE_BATCH_SIZE = 5
+const BULK_INVITE_EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function guessColumnMapping(table: DelimitedTable): BulkInviteColumnMapping {
+    const mapping: BulkInviteColumnMapping = {}
+    const headers = table.headers.map((header) => header.trim().toLowerCase())
+    for (const { field, aliases } of BULK_INVITE_FIELDS) {
+        const index = headers.findIndex((header) => aliases.includes(header))
+        if (index >= 0)
+            mapping[field] = index
+    }
+
+    /* Headerless Tables still Give Away their Email Column */
+    if (mapping.email === undefined) {
+        const index = table.headers.findIndex((_, i) => table.rows.filter((row) => BULK_INVITE_EMAIL_PATTERN.test(row[i])).length > table.rows.length / 2)
+        if (index >= 0)
+            mapping.email = index
+    }
+
+    return mapping
+}
+
 export const DashboardTeamInfo = () => {
     const params = useParams()
     const navigate = useNavigate()
@@ -92,6 +174,7 @@ export const DashboardTeamInfo = () => {
     const [subTeams, setSubTeams] = React.useState<TeamInfo[]>([]);
     const [settingDefinitions, setSettingDefinitions] = React.useState<RootTeamSettingMap>({});
     const [addMembersOpen, setAddMembersOpen] = React.useState(false);
+    const [bulkInviteOpen, setBulkInviteOpen] = React.useState(false);
     const [subteamsOpen, setSubteamsOpen] = React.useState(false);
     const [teamSettingsOpen, setTeamSettingsOpen] = React.useState(false);
     const [isSavingSettings, setIsSavingSettings] = React.useState(false);
@@ -105,6 +188,7 @@ export const DashboardTeamInfo = () => {
     const [syncDialogDescription, setSyncDialogDescription] = React.useState("");
     const [syncDialogProgress, setSyncDialogProgress] = React.useState(0);
     const [syncDialogStatus, setSyncDialogStatus] = React.useState("");
+    const [invitesRefreshKey, setInvitesRefreshKey] = React.useState(0);
 
 
 
@@ -340,7 +424,20 @@ export const DashboardTeamInfo = () => {
                 isLoading={isRemovingMember}
             />
 
-            <AddTeamMembersDialog open={addMembersOpen} openChanged={setAddMembersOpen} teamPk={teamInfo?.pk} subteams={subTeams.filter((t) => !t.attributes.flaggedForDeletion)} />
+            <AddTeamMembersDialog open={addMembersOpen} openChanged={(open, refresh) => {
+                setAddMembersOpen(open)
+                if (refresh) {
+                    refreshTeamInfo()
+                    setInvitesRefreshKey((key) => key + 1)
+                }
+            }} teamPk={teamInfo?.pk} subteams={subTeams.filter((t) => !t.attributes.flaggedForDeletion)} />
+            <BulkInviteDialog open={bulkInviteOpen} openChanged={(open, refresh) => {
+                setBulkInviteOpen(open)
+                if (refresh) {
+                    refreshTeamInfo()
+                    setInvitesRefreshKey((key) => key + 1)
+                }
+            }} teamPk={teamInfo?.pk} subteams={subTeams.filter((t) => !t.attributes.flaggedForDeletion)} />
             <ProgressUpdateDialog open={syncDialogOpen} title={syncDialogTitle} description={syncDialogDescription} status={syncDialogStatus} progressPercent={syncDialogProgress} />
             <SubteamsInfoDialog open={subteamsOpen} openChanged={setSubteamsOpen} subteams={subTeams} onRefresh={refreshTeamInfo} parentTeamId={teamInfo?.pk} />
             <TeamSettingsDialog open={teamSettingsOpen} openChanged={setTeamSettingsOpen} teamInfo={teamInfo} settingDefinitions={settingDefinitions} isSaving={isSavingSettings} onSave={saveRootTeamSettings} onTeamInfoChange={handleTeamInfoChange} />
@@ -351,10 +448,16 @@ export const DashboardTeamInfo = () => {
                     <h4 className="text-xl text-muted-foreground">{teamInfo?.attributes.description}</h4>
                 </div>
 
-                <Button className="cursor-pointer" onClick={() => { setAddMembersOpen(true) }}>
-                    <UserPlus2Icon />
-                    Add Members
-                </Button>
+                <div className="flex gap-2">
+                    <Button variant="outline" className="cursor-pointer" onClick={() => { setBulkInviteOpen(true) }}>
+                        <FileSpreadsheetIcon />
+                        Bulk Invite
+                    </Button>
+                    <Button className="cursor-pointer" onClick={() => { setAddMembersOpen(true) }}>
+                        <UserPlus2Icon />
+                        Add Members
+                    </Button>
+                </div>
             </div>
 
             <div className="mt-3">
@@ -393,6 +496,8 @@ export const DashboardTeamInfo = () => {
             </div>
 
 
+            <PendingInvitesPanel teamPk={teamInfo?.pk} subteams={subTeams} refreshKey={invitesRefreshKey} />
+
             <Tabs key={teamInfo?.pk ?? "loading"} className="mt-5" defaultValue={(teamInfo?.attributes.seasonType === "ROLLING") ? (subTeams?.filter(st => !st.attributes.flaggedForDeletion)[0]?.name ?? "owner") : "owner"}>
                 <h3 className="text-lg">Who's on my Team?</h3>
                 <TabsList>
@@ -441,6 +546,188 @@ export const DashboardTeamInfo = () => {
     )
 }
 
+const PendingInvitesPanel = (props: { teamPk?: string, subteams: TeamInfo[], refreshKey: number }) => {
+    const [invites, setInvites] = React.useState<TeamInvite[]>([])
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [showCompleted, setShowCompleted] = React.useState(false)
+    const [pendingActionPk, setPendingActionPk] = React.useState<string>()
+    const [revokePendingInvite, setRevokePendingInvite] = React.useState<TeamInvite>()
+
+    const refreshInvites = () => {
+        if (!props.teamPk)
+            return
+
+        setIsLoading(true)
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/teams/${props.teamPk}/invites`, { credentials: "include" })
+            .then(async (res) => {
+                const data = await res.json()
+                if (!res.ok) throw new Error(data.message || `HTTP ${res.status}`)
+                setInvites(data.invites)
+            })
+            .catch((e) => {
+                toast.error(`Failed to Fetch Pending Invites: ${e.message}`)
+            })
+            .finally(() => setIsLoading(false))
+    }
+
+    React.useEffect(() => {
+        refreshInvites()
+    }, [props.teamPk, props.refreshKey])
+
+    const runInviteAction = (invite: TeamInvite, action: string, init: RequestInit, successMessage: string) => {
+        setPendingActionPk(invite.pk)
+        return fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/invites/${invite.pk}/${action}`, {
+            method: "POST",
+            credentials: "include",
+            headers: { "Content-Type": "application/json" },
+            ...init
+        }).then(async (res) => {
+            if (!res.ok) {
+                const errorData = await res.json().catch(() => ({}))
+                throw new Error(errorData.message || `HTTP ${res.status}`)
+            }
+
+            toast.success(successMessage)
+            refreshInvites()
+        }).catch((e) => {
+            toast.error(`Failed to Update the Invite for ${invite.inviteeName}: ${e.message}`)
+        }).finally(() => setPendingActionPk(undefined))
+    }
+
+    const handleResend = (invite: TeamInvite) =>
+        runInviteAction(invite, "resend", {}, `Invite resent to ${invite.inviteeEmail}!`)
+
+    const handleExtend = (invite: TeamInvite) =>
+        runInviteAction(invite, "extend", { body: JSON.stringify({ days: INVITE_EXTENSION_DAYS }) }, `Extended ${invite.inviteeName}'s invite by ${INVITE_EXTENSION_DAYS} days!`)
+
+    const handleRevoke = () => {
+        if (!revokePendingInvite)
+            return
+
+        runInviteAction(revokePendingInvite, "revoke", {}, `Revoked ${revokePendingInvite.inviteeName}'s invite!`)
+            .then(() => setRevokePendingInvite(undefined))
+    }
+
+    /* Opens the Invitee's Onboarding Page in a Read-Only Preview */
+    const handlePreview = (invite: TeamInvite) => {
+        window.open(`/onboard/${invite.pk}?preview`, "_blank", "noopener")
+    }
+
+    const visibleInvites = invites.filter((invite) => showCompleted || invite.status !== "completed")
+    const subteamName = (subteamPk: string) => props.subteams.find((t) => t.pk === subteamPk)?.attributes.friendlyName ?? "Unknown Subteam"
+
+    return (
+        <div className="mt-5">
+            <RevokeInviteDialog
+                invite={revokePendingInvite}
+                onOpenChange={(open) => { if (!open) setRevokePendingInvite(undefined) }}
+                onConfirm={handleRevoke}
+                isLoading={pendingActionPk !== undefined && pendingActionPk === revokePendingInvite?.pk}
+            />
+
+            <div className="flex items-center">
+                <h3 className="text-lg flex-grow-1">Pending Invites</h3>
+                <div className="flex items-center gap-2">
+                    <Label htmlFor="show-completed-invites" className="text-sm text-muted-foreground">Show Completed</Label>
+                    <Switch id="show-completed-invites" checked={showCompleted} onCheckedChange={setShowCompleted} />
+                    <Button variant="ghost" size="icon" aria-label="Refresh Invites" disabled={isLoading} onClick={refreshInvites}>
+                        <RefreshCcwIcon className={cn(isLoading && "animate-spin")} />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="mt-2 rounded-md border">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Invitee</TableHead>
+                            <TableHead>Role</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Invited By</TableHead>
+                            <TableHead>Expires</TableHead>
+                            <TableHead className="w-12" />
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {visibleInvites.length == 0 ? (
+                            <TableRow>
+                                <TableCell colSpan={6} className="h-16 text-center text-muted-foreground">
+                                    {isLoading ? "Loading Invites..." : "No Pending Invites"}
+                                </TableCell>
+                            </TableRow>
+                        ) : visibleInvites.map((invite) => {
+                            const statusStyle = INVITE_STATUS_STYLES[invite.status]
+                            const isActionable = invite.status !== "completed"
+                            const expiresAt = new Date(invite.expiresAt)
+
+                            return (
+                                <TableRow key={invite.pk}>
+                                    <TableCell>
+                                        <div className="flex flex-col">
+                                            <span>{invite.inviteeName}</span>
+                                            <span className="text-xs text-muted-foreground">{invite.inviteeEmail}</span>
+                                        </div>
+                                    </TableCell>
+                                    <TableCell>
+                                        <div className="flex flex-col">
+                                            <span>{invite.roleTitle}</span>
+                                            <span className="text-xs text-muted-foreground">{subteamName(invite.subteamPk)}</span>
+                                        </div>
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge variant="secondary" className={statusStyle.className}>{statusStyle.label}</Badge>
+                                        {invite.status === "in_progress" && invite.currentStage && (
+                                            <span className="block text-xs text-muted-foreground mt-1">On {invite.currentStage}</span>
+                                        )}
+                                    </TableCell>
+                                    <TableCell>
+                                        <div className="flex flex-col">
+                                            <span>{invite.inviterName}</span>
+                                            <span className="text-xs text-muted-foreground">{format(new Date(invite.createdAt), "MMM d, yyyy")}</span>
+                                        </div>
+                                    </TableCell>
+                                    <TableCell title={format(expiresAt, "PPpp")}>
+                                        {invite.status === "completed" ? <span className="text-muted-foreground">-</span> :
+                                            expiresAt < new Date() ? `${formatDistanceToNow(expiresAt)} ago` : `in ${formatDistanceToNow(expiresAt)}`}
+                                    </TableCell>
+                                    <TableCell>
+                                        <DropdownMenu>
+                                            <DropdownMenuTrigger asChild>
+                                                <Button variant="ghost" size="icon" aria-label={`Actions for ${invite.inviteeName}'s Invite`} disabled={pendingActionPk === invite.pk}>
+                                                    {pendingActionPk === invite.pk ? <Loader2Icon className="animate-spin" /> : <MoreHorizontalIcon />}
+                                                </Button>
+                                            </DropdownMenuTrigger>
+                                            <DropdownMenuContent align="end">
+                                                <DropdownMenuItem onClick={() => handlePreview(invite)}>
+                                                    <EyeIcon />
+                                                    Preview Onboarding
+                                                </DropdownMenuItem>
+                                                <DropdownMenuItem disabled={!isActionable || invite.status === "expired"} onClick={() => handleResend(invite)}>
+                                                    <MailIcon />
+                                                    Resend Invite
+                                                </DropdownMenuItem>
+                                                <DropdownMenuItem disabled={!isActionable} onClick={() => handleExtend(invite)}>
+                                                    <CalendarClockIcon />
+                                                    Extend by {INVITE_EXTENSION_DAYS} Days
+                                                </DropdownMenuItem>
+                                                <DropdownMenuSeparator />
+                                                <DropdownMenuItem variant="destructive" disabled={!isActionable} onClick={() => setRevokePendingInvite(invite)}>
+                                                    <BanIcon />
+                                                    Revoke Invite
+                                                </DropdownMenuItem>
+                                            </DropdownMenuContent>
+                                        </DropdownMenu>
+                                    </TableCell>
+                                </TableRow>
+                            )
+                        })}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    )
+}
+
 const AddTeamMembersDialog = (props: { teamPk?: string, subteams: TeamInfo[], open: boolean, openChanged: (open: boolean, refresh?: boolean) => void }) => {
     const [currentTab, setCurrentTab] = React.useState("")
     const [selectedSubTeam, setSelectedSubTeam] = React.useState<TeamInfo>()
@@ -630,6 +917,387 @@ const AddTeamMembersDialog = (props: { teamPk?: string, subteams: TeamInfo[], op
     )
 }
 
+const BulkInviteDialog = (props: { teamPk?: string, subteams: TeamInfo[], open: boolean, openChanged: (open: boolean, refresh?: boolean) => void }) => {
+    const fileInputRef = React.useRef<HTMLInputElement>(null)
+    const [step, setStep] = React.useState<BulkInviteStep>("import")
+    const [rawText, setRawText] = React.useState("")
+    const [hasHeaderRow, setHasHeaderRow] = React.useState(true)
+    const [table, setTable] = React.useState<DelimitedTable>()
+    const [columnMapping, setColumnMapping] = React.useState<BulkInviteColumnMapping>({})
+    const [defaultRoleTitle, setDefaultRoleTitle] = React.useState("")
+    const [defaultSubteamPk, setDefaultSubteamPk] = React.useState<string>()
+    const [rows, setRows] = React.useState<BulkInviteRow[]>([])
+    const [isValidating, setIsValidating] = React.useState(false)
+    const [isSending, setIsSending] = React.useState(false)
+
+    React.useEffect(() => {
+        if (props.open) {
+            setStep("import")
+            setRawText("")
+            setHasHeaderRow(true)
+            setTable(undefined)
+            setColumnMapping({})
+            setDefaultRoleTitle("")
+            setDefaultSubteamPk(undefined)
+            setRows([])
+        }
+    }, [props.open])
+
+    const isMappingComplete = columnMapping.name !== undefined && columnMapping.email !== undefined &&
+        (columnMapping.roleTitle !== undefined || !!defaultRoleTitle.trim()) &&
+        (columnMapping.subteam !== undefined || !!defaultSubteamPk)
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ""
+        if (!file)
+            return
+
+        setRawText(await file.text())
+    }
+
+    const handleImport = () => {
+        const parsed = parseDelimitedText(rawText, hasHeaderRow)
+        if (parsed.rows.length == 0) {
+            toast.error("No Rows Found", { description: "Paste a table or upload a CSV with at least one invitee." })
+            return
+        }
+
+        setTable(parsed)
+        setColumnMapping(guessColumnMapping(parsed))
+        setStep("map")
+    }
+
+    const resolveSubteam = (value: string) => {
+        const normalized = value.trim().toLowerCase()
+        return props.subteams.find((t) => t.attributes.friendlyName.toLowerCase() === normalized || t.name.toLowerCase() === normalized)
+    }
+
+    const handlePreview = async () => {
+        if (!table)
+            return
+
+        const cellValue = (cells: string[], field: BulkInviteField) =>
+            (columnMapping[field] !== undefined) ? (cells[columnMapping[field]!] ?? "").trim() : ""
+
+        const firstLineOfEmail = new Map<string, number>()
+        const built: BulkInviteRow[] = table.rows.map((cells, i) => {
+            const line = table.lineNumbers[i]
+            const name = cellValue(cells, "name")
+            const email = cellValue(cells, "email").toLowerCase()
+            const roleTitle = cellValue(cells, "roleTitle") || defaultRoleTitle.trim()
+            const subteamValue = cellValue(cells, "subteam")
+            const subteam = subteamValue ? resolveSubteam(subteamValue) : props.subteams.find((t) => t.pk === defaultSubteamPk)
+
+            const problems: string[] = []
+            if (!name) problems.push("Missing name")
+            if (!BULK_INVITE_EMAIL_PATTERN.test(email)) problems.push("Invalid email address")
+            else if (firstLineOfEmail.has(email)) problems.push(`Duplicate of row ${firstLineOfEmail.get(email)}`)
+            else firstLineOfEmail.set(email, line)
+            if (!roleTitle) problems.push("Missing role title")
+            if (!subteam) problems.push(subteamValue ? `Unknown subteam "${subteamValue}"` : "Missing subteam")
+
+            return { line, name, email, roleTitle, subteam, problems, included: problems.length == 0 }
+        })
+
+        /* Existing Members are Added Directly instead of being Sent an Invite */
+        setIsValidating(true)
+        const existingMembers = new Map<string, UserInformationBrief>()
+        const emails = Array.from(firstLineOfEmail.keys())
+        let lookupFailed = false
+        for (let i = 0; i < emails.length; i += BULK_INVITE_BATCH_SIZE) {
+            await Promise.all(emails.slice(i, i + BULK_INVITE_BATCH_SIZE).map((email) =>
+                fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people?search=${encodeURIComponent(email)}`)
+                    .then(async (response) => {
+                        const userlistResponse: GetUserListResponse = await response.json()
+                        if (!response.ok)
+                            throw new Error(userlistResponse.message || `HTTP ${response.status}`)
+
+                        const member = userlistResponse.users.find((user) => user.email.toLowerCase() === email)
+                        if (member)
+                            existingMembers.set(email, member)
+                    })
+                    .catch((e) => {
+                        console.error(`Failed to Look Up ${email}`, e)
+                        lookupFailed = true
+                    })
+            ))
+        }
+
+        if (lookupFailed)
+            toast.warning("Some Members Couldn't be Checked", { description: "They'll be sent an invite even if they already have an account." })
+
+        setRows(built.map((row) => {
+            const existingMember = existingMembers.get(row.email)
+            if (!existingMember || !row.subteam?.users?.some((user) => user.pk === existingMember.pk))
+                return { ...row, existingMember }
+
+            /* Current Members of the Subteam are Flagged rather than Added Again */
+            return { ...row, existingMember, problems: [...row.problems, `Already on ${row.subteam.attributes.friendlyName}`], included: false }
+        }))
+        setIsValidating(false)
+        setStep("preview")
+    }
+
+    const setRowResult = (line: number, result: BulkInviteRow["result"]) => {
+        setRows((existingRows) => existingRows.map((row) => row.line === line ? { ...row, result } : row))
+    }
+
+    const sendRow = async (row: BulkInviteRow) => {
+        const request = row.existingMember ?
+            fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/teams/${row.subteam!.pk}/addmember`, {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ userPk: row.existingMember.pk, roleTitle: row.roleTitle })
+            }) :
+            fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/teams/${props.teamPk}/externalinvite`, {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    inviteeName: row.name,
+                    inviteeEmail: row.email,
+                    roleTitle: row.roleTitle,
+                    subteamPk: row.subteam!.pk
+                })
+            })
+
+        const res = await request
+        if (!res.ok)
+            throw new Error((await res.json().catch(() => ({}))).message || `HTTP ${res.status}`)
+    }
+
+    const handleSend = async () => {
+        if (!props.teamPk)
+            return
+
+        /* Retrying Skips Rows that already Went Through */
+        const queue = rows.filter((row) => row.included && row.result?.status !== "sent")
+        setStep("send")
+        setIsSending(true)
+
+        let sentCount = 0
+        for (let i = 0; i < queue.length; i += BULK_INVITE_BATCH_SIZE) {
+            const batch = queue.slice(i, i + BULK_INVITE_BATCH_SIZE)
+            batch.forEach((row) => setRowResult(row.line, { status: "sending" }))
+            await Promise.all(batch.map((row) => sendRow(row)
+                .then(() => {
+                    sentCount++
+                    setRowResult(row.line, { status: "sent" })
+                })
+                .catch((e) => setRowResult(row.line, { status: "failed", message: e.message }))
+            ))
+        }
+
+        setIsSending(false)
+        if (sentCount == queue.length)
+            toast.success(`Sent all ${sentCount} invites!`)
+        else
+            toast.error(`${queue.length - sentCount} of ${queue.length} invites failed`, { description: "Review the failed rows and retry." })
+    }
+
+    const includedCount = rows.filter((row) => row.included).length
+    const failedCount = rows.filter((row) => row.result?.status === "failed").length
+    const hasSent = rows.some((row) => row.result?.status === "sent")
+
+    return (
+        <Dialog open={props.open} onOpenChange={(open) => { if (!isSending) props.openChanged(open, hasSent) }}>
+            <DialogContent className="sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Bulk Invite Members</DialogTitle>
+                    <DialogDescription>
+                        {step === "import" && "Upload a CSV or paste rows straight from a spreadsheet."}
+                        {step === "map" && "Tell us which columns hold each detail. Defaults fill in blanks."}
+                        {step === "preview" && "Review who will be invited. Rows with problems are skipped."}
+                        {step === "send" && (isSending ? "Sending invites, please keep this window open..." : "Finished sending invites.")}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === "import" && (
+                    <div className="flex flex-col gap-2">
+                        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={handleFileChange} />
+                        <Button variant="outline" className="w-fit" onClick={() => fileInputRef.current?.click()}>
+                            <UploadIcon />
+                            Upload CSV
+                        </Button>
+
+                        <Label className="mt-2" htmlFor="bulk-invite-paste">Or Paste a Table</Label>
+                        <Textarea
+                            id="bulk-invite-paste"
+                            className="h-48 font-mono text-xs"
+                            value={rawText}
+                            onChange={(e) => setRawText(e.target.value)}
+                            placeholder={"Name,Email,Role,Subteam\nAtheesh Thirumalairajan,atheesh@terpmail.umd.edu,Software Engineer,Engineering"}
+                        />
+
+                        <div className="flex items-center gap-2">
+                            <Switch id="bulk-invite-header" checked={hasHeaderRow} onCheckedChange={setHasHeaderRow} />
+                            <Label htmlFor="bulk-invite-header">First Row is a Header</Label>
+                        </div>
+                    </div>
+                )}
+
+                {step === "map" && table && (
+                    <div className="grid grid-cols-[10rem_1fr] items-center gap-3">
+                        {BULK_INVITE_FIELDS.map(({ field, label, required }) => (
+                            <React.Fragment key={field}>
+                                <Label>{label}{required && <span className="text-red-500">*</span>}</Label>
+                                <Select
+                                    value={columnMapping[field]?.toString() ?? BULK_INVITE_UNMAPPED}
+                                    onValueChange={(value) => setColumnMapping((mapping) => ({
+                                        ...mapping,
+                                        [field]: value === BULK_INVITE_UNMAPPED ? undefined : Number(value)
+                                    }))}
+                                >
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={BULK_INVITE_UNMAPPED}>{required ? "Choose a Column" : "Not in File, Use Default"}</SelectItem>
+                                        {table.headers.map((header, i) => (
+                                            <SelectItem key={i} value={i.toString()}>
+                                                {header} <span className="text-muted-foreground">(e.g. {table.rows[0][i] || "blank"})</span>
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </React.Fragment>
+                        ))}
+
+                        <Label>Default Role Title</Label>
+                        <Input value={defaultRoleTitle} onChange={(e) => setDefaultRoleTitle(e.target.value)} placeholder="Ex. Software Engineer" />
+
+                        <Label>Default Subteam</Label>
+                        <Select value={defaultSubteamPk ?? BULK_INVITE_UNMAPPED} onValueChange={(value) => setDefaultSubteamPk(value === BULK_INVITE_UNMAPPED ? undefined : value)}>
+                            <SelectTrigger className="w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={BULK_INVITE_UNMAPPED}>No Default</SelectItem>
+                                {props.subteams.map((team) => (
+                                    <SelectItem key={team.pk} value={team.pk}>{team.attributes.friendlyName}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {(step === "preview" || step === "send") && (
+                    <div className="max-h-96 overflow-auto rounded-md border">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    {step === "preview" && <TableHead className="w-8" />}
+                                    <TableHead>Row</TableHead>
+                                    <TableHead>Invitee</TableHead>
+                                    <TableHead>Role</TableHead>
+                                    <TableHead>Subteam</TableHead>
+                                    <TableHead>Status</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rows.filter((row) => step === "preview" || row.included).map((row) => (
+                                    <TableRow key={row.line} className={cn(row.problems.length > 0 && "opacity-60")}>
+                                        {step === "preview" && (
+                                            <TableCell>
+                                                <Checkbox
+                                                    aria-label={`Include ${row.name || `Row ${row.line}`}`}
+                                                    checked={row.included}
+                                                    disabled={row.problems.length > 0}
+                                                    onCheckedChange={(checked) => setRows((existingRows) => existingRows.map((el) =>
+                                                        el.line === row.line ? { ...el, included: checked === true } : el
+                                                    ))}
+                                                />
+                                            </TableCell>
+                                        )}
+                                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-col">
+                                                <span>{row.name || "-"}</span>
+                                                <span className="text-xs text-muted-foreground">{row.email || "-"}</span>
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>{row.roleTitle || "-"}</TableCell>
+                                        <TableCell>{row.subteam?.attributes.friendlyName ?? "-"}</TableCell>
+                                        <TableCell>
+                                            <BulkInviteRowStatus row={row} />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {step === "import" && <>
+                        <DialogClose asChild>
+                            <Button variant="outline">Cancel</Button>
+                        </DialogClose>
+                        <Button disabled={!rawText.trim()} onClick={handleImport}>Next</Button>
+                    </>}
+
+                    {step === "map" && <>
+                        <Button variant="outline" onClick={() => setStep("import")}>
+                            <ArrowLeftIcon />
+                            Back
+                        </Button>
+                        <Button disabled={!isMappingComplete || isValidating} onClick={handlePreview}>
+                            <Loader2Icon className={cn("animate-spin", !isValidating ? "hidden" : "")} />
+                            Preview Invites
+                        </Button>
+                    </>}
+
+                    {step === "preview" && <>
+                        <Button variant="outline" onClick={() => setStep("map")}>
+                            <ArrowLeftIcon />
+                            Back
+                        </Button>
+                        <Button disabled={includedCount == 0} onClick={handleSend}>
+                            <SendIcon />
+                            Send {includedCount} {includedCount == 1 ? "Invite" : "Invites"}
+                        </Button>
+                    </>}
+
+                    {step === "send" && <>
+                        {failedCount > 0 && !isSending && (
+                            <Button variant="outline" onClick={handleSend}>
+                                <RefreshCcwIcon />
+                                Retry {failedCount} Failed
+                            </Button>
+                        )}
+                        <Button disabled={isSending} onClick={() => props.openChanged(false, hasSent)}>
+                            <Loader2Icon className={cn("animate-spin", !isSending ? "hidden" : "")} />
+                            Done
+                        </Button>
+                    </>}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+const BulkInviteRowStatus = (props: { row: BulkInviteRow }) => {
+    const { row } = props
+    if (row.result?.status === "sending")
+        return <span className="flex items-center gap-1 text-xs text-muted-foreground"><Loader2Icon className="size-3 animate-spin" />Sending...</span>
+
+    if (row.result?.status === "sent")
+        return <span className="flex items-center gap-1 text-xs text-green-600"><Check className="size-3" />{row.existingMember ? "Added to Team" : "Invite Sent"}</span>
+
+    if (row.result?.status === "failed")
+        return <span className="text-xs text-red-500 font-medium">Failed: {row.result.message}</span>
+
+    if (row.problems.length > 0)
+        return <span className="text-xs text-red-500 font-medium">{row.problems.join(", ")}</span>
+
+    if (row.existingMember)
+        return <Badge variant="secondary" className="text-purple-700 bg-purple-50 border-purple-200" title={`Already in the org as ${row.existingMember.username}`}>Existing Member, Added Directly</Badge>
+
+    return <Badge variant="secondary" className="text-blue-700 bg-blue-50 border-blue-200">New Invite</Badge>
+}
+
 const MembersFilterPopover = (props: { handleSelect: (member: UserInformationBrief) => void }) => {
     const [open, setOpen] = React.useState(false)
     const [searchValue, setSearchValue] = React.useState("")
@@ -1321,6 +1989,34 @@ const RemoveMemberDialog = (props: {
     )
 }
 
+const RevokeInviteDialog = (props: {
+    invite?: TeamInvite,
+    onOpenChange: (open: boolean) => void,
+    onConfirm: () => void,
+    isLoading: boolean
+}) => {
+    return (
+        <Dialog open={props.invite !== undefined} onOpenChange={props.onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Revoke Invite?</DialogTitle>
+                    <DialogDescription>
+                        <strong>{props.invite?.inviteeName}</strong> ({props.invite?.inviteeEmail}) will no longer be able to use their invite link.
+                        Any onboarding progress they've made will be discarded.
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => props.onOpenChange(false)}>Cancel</Button>
+                    <Button variant="destructive" disabled={props.isLoading} onClick={props.onConfirm}>
+                        <Loader2Icon className={cn("animate-spin", !props.isLoading ? "hidden" : "")} />
+                        Revoke Invite
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
 const RemoveSubteamDialog = (props: {
     open: boolean,
     onOpenChange: (open: boolean) => void,
@@ -30,7 +30,7 @@ import { Label } from "../ui/label";
 import { TagInput, type Tag } from 'emblor-maintained';
 import { Input } from "../ui/input";
 import { Button } from "../ui/button";
-import { Loader2, Loader2Icon, ExternalLinkIcon, ChevronLeft, ChevronRight, MailIcon, ClipboardCheckIcon, PartyPopperIcon, HeadsetIcon, CopyCheckIcon, ThumbsDownIcon, AlertTriangleIcon, MessageSquarePlusIcon } from "lucide-react";
+import { Loader2, Loader2Icon, ExternalLinkIcon, ChevronLeft, ChevronRight, MailIcon, ClipboardCheckIcon, PartyPopperIcon, HeadsetIcon, CopyCheckIcon, ThumbsDownIcon, AlertTriangleIcon, MessageSquarePlusIcon, PencilIcon, UndoIcon, PlusIcon, Trash2Icon } from "lucide-react";
 import { KanbanBoard, KanbanCard, KanbanCards, KanbanHeader, KanbanProvider } from "../ui/shadcn-io/kanban";
 import type { DragEndEvent, DragStartEvent } from "@dnd-kit/core";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../ui/dialog";
@@ -45,10 +45,14 @@ import Ratings from "../ui/ratings";
 import { Editor } from "@/components/blocks/editor-00/editor";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { DOCUMENT_KIND_LABELS, getApplicantFileHref, type PinnedDocument } from "@/lib/documents";
+import { formatCountdown, fromDateTimeLocalValue, getRecruitmentWindowState, toDateTimeLocalValue, type RecruitmentWindow } from "@/lib/deadlines";
+import { findRoleQuestionError, normalizeRoleQuestion, ROLE_QUESTION_KINDS, type RoleQuestion, type RoleQuestionKind } from "@/lib/questions";
+import { isHttpUrl, splitMultiselect } from "@/lib/profile";
 
-interface SubteamATSConfig {
+interface SubteamATSConfig extends RecruitmentWindow {
     roles: string[]
-    roleSpecificQuestions: { [key: string]: string[] },
+    roleSpecificQuestions: { [key: string]: (string | RoleQuestion)[] },
     isRecruiting: boolean
 }
 
@@ -70,14 +74,21 @@ interface KanbanApplicationDetails extends KanbanApplicationCard {
     email: string;
     profile: { [key: string]: string };
     responses: { [key: string]: string };
+    /* Question Types at Submission, Missing on Applications from before Typed Questions */
+    responseKinds?: { [key: string]: RoleQuestionKind };
     hiredSubteamPk?: string;
     hiredRole?: string;
     appDevInternalPk?: number;
     notes?: string;
+    // Versions pinned at submission, older applications only have the profile resume
+    documents?: PinnedDocument[];
     stageHistory?: {
         stage: string;
         changedAt: string;
         changedBy?: string;
+        // Applicant edits keep the stage, withdrawals move it to Withdrawn
+        action?: 'stage_change' | 'edited' | 'withdrawn';
+        note?: string;
     }[];
 }
 
@@ -94,6 +105,7 @@ export const DashboardTeamRecruitment = () => {
         'Hired': 'text-green-700 bg-green-50 border-green-200',
         'Rejected': 'text-red-700 bg-red-50 border-red-200',
         'Potential Hire': 'text-orange-700 bg-orange-50 border-orange-200',
+        'Withdrawn': 'text-gray-700 bg-gray-50 border-gray-200',
     }
     const params = useParams()
     const [teamInfo, setTeamInfo] = React.useState<TeamInfo>();
@@ -105,7 +117,8 @@ export const DashboardTeamRecruitment = () => {
 
     const [isLoading, setIsLoading] = React.useState(false);
     const [recruitmentEnabled, setRecruitmentEnabled] = React.useState<{ [key: string]: boolean }>({})
-    const [roleSpecQuestions, setRoleSpecQuestions] = React.useState<{ [key: string]: { [key: string]: string[] } }>({})
+    const [roleSpecQuestions, setRoleSpecQuestions] = React.useState<{ [key: string]: { [key: string]: RoleQuestion[] } }>({})
+    const [recruitmentWindows, setRecruitmentWindows] = React.useState<{ [key: string]: RecruitmentWindow }>({})
 
     const [applications, setApplications] = React.useState<KanbanApplicationCard[]>([])
     const [selectedApplication, setSelectedApplication] = React.useState<KanbanApplicationCard | null>(null)
@@ -113,6 +126,8 @@ export const DashboardTeamRecruitment = () => {
     const [isLoadingDetails, setIsLoadingDetails] = React.useState(false)
 
     const [applicantUrls, setApplicantUrls] = React.useState<any | null>(null)
+    const [selectedDocumentVersionId, setSelectedDocumentVersionId] = React.useState<string | null>(null)
+    const [documentUrls, setDocumentUrls] = React.useState<{ [versionId: string]: string }>({})
     const [otherApplications, setOtherApplications] = React.useState<any[]>([])
     const [dragStartColumn, setDragStartColumn] = React.useState<string | null>(null);
 
@@ -126,7 +141,8 @@ export const DashboardTeamRecruitment = () => {
         // Terminal stages cannot transition anywhere
         'Hired': [],
         'Rejected': [],
-        'Rejected After Interview': []
+        'Rejected After Interview': [],
+        'Withdrawn': []
     }
 
     const [pendingTransition, setPendingTransition] = React.useState<{ applicationId: string, newStage: string, previousStage: string } | null>(null)
@@ -385,6 +401,7 @@ export const DashboardTeamRecruitment = () => {
             setApplicantUrls(null) // Reset while loading
             setOtherApplications([]) // Reset while loading
             setSelectedApplicationDetails(null);
+            setSelectedDocumentVersionId(null);
             setIsLoadingDetails(true);
 
             // Fetch secure resume URL
@@ -426,6 +443,10 @@ export const DashboardTeamRecruitment = () => {
                     }
                     const details: KanbanApplicationDetails = await res.json();
                     setSelectedApplicationDetails(details);
+
+                    // Show the submitted resume first
+                    const firstDocument = details.documents?.find(doc => doc.kind === 'resume') ?? details.documents?.[0];
+                    setSelectedDocumentVersionId(firstDocument?.versionId ?? null);
                 })
                 .catch(err => {
                     console.error("Failed to fetch application details", err);
@@ -436,6 +457,25 @@ export const DashboardTeamRecruitment = () => {
         }
     }, [selectedApplication?.id])
 
+    // Fetch a signed URL for the pinned document version being viewed
+    React.useEffect(() => {
+        if (!selectedApplication?.id || !selectedDocumentVersionId || documentUrls[selectedDocumentVersionId]) return;
+
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/applications/${params.teamId}/${selectedApplication.id}/documents/${selectedDocumentVersionId}`)
+            .then(async (res) => {
+                if (!res.ok) {
+                    const errorData = await res.json();
+                    throw new Error(errorData.message || "Failed to fetch document");
+                }
+                const { url } = await res.json();
+                setDocumentUrls(prev => ({ ...prev, [selectedDocumentVersionId]: url }));
+            })
+            .catch(err => {
+                console.error("Failed to fetch document URL", err);
+                toast.error("Failed to load document: " + err.message);
+            });
+    }, [selectedApplication?.id, selectedDocumentVersionId])
+
     // Fetch application stages
     React.useEffect(() => {
         fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/stages`)
@@ -491,12 +531,15 @@ export const DashboardTeamRecruitment = () => {
                                 setRoles(role => ({ ...role, [subteam.pk]: mappedRoles }))
                                 setTagIndex(tagIndex => ({ ...tagIndex, [subteam.pk]: null }))
                                 setRecruitmentEnabled(enabled => ({ ...enabled, [subteam.pk]: config.isRecruiting }))
-                                setRoleSpecQuestions(rsq => ({ ...rsq, [subteam.pk]: config.roleSpecificQuestions }))
+                                const questions = Object.fromEntries(Object.entries(config.roleSpecificQuestions ?? {}).map(([role, roleQuestions]) => [role, roleQuestions.map(normalizeRoleQuestion)]))
+                                setRoleSpecQuestions(rsq => ({ ...rsq, [subteam.pk]: questions }))
+                                setRecruitmentWindows(windows => ({ ...windows, [subteam.pk]: { opensAt: config.opensAt, closesAt: config.closesAt } }))
                             } else if (response.status == 404) {
                                 setRoles(role => ({ ...role, [subteam.pk]: [] }))
                                 setTagIndex(tagIndex => ({ ...tagIndex, [subteam.pk]: null }))
                                 setRecruitmentEnabled(enabled => ({ ...enabled, [subteam.pk]: false }))
                                 setRoleSpecQuestions(rsq => ({ ...rsq, [subteam.pk]: {} }))
+                                setRecruitmentWindows(windows => ({ ...windows, [subteam.pk]: {} }))
                             } else {
                                 // toast.error("Failed to Fetch Configuration", "We couldn't ret")
                             }
@@ -512,20 +555,47 @@ export const DashboardTeamRecruitment = () => {
     }, [params.teamId]);
 
     function handleSettingsUpdate(subteamPk: string) {
-        setIsLoading(true);
+        const { opensAt, closesAt } = recruitmentWindows[subteamPk] ?? {};
+        if (opensAt && closesAt && Date.parse(closesAt) <= Date.parse(opensAt)) {
+            toast.error("Invalid Recruitment Window", {
+                description: "Applications must close after they open."
+            })
+            return
+        }
+
         const enabledRoles = roles[subteamPk].map((role) => role.text)
         const questions = enabledRoles.reduce(
-            (acc: { [key: string]: string[] }, role) => {
-                acc[role] = roleSpecQuestions[subteamPk][role]
+            (acc: { [key: string]: RoleQuestion[] }, role) => {
+                /* Blank Option Lines are Kept while Editing, Drop them on Save */
+                acc[role] = (roleSpecQuestions[subteamPk][role] ?? []).map((question) => ({
+                    ...question,
+                    prompt: question.prompt.trim(),
+                    options: question.kind === "select" || question.kind === "multiselect"
+                        ? question.options?.map(option => option.trim()).filter(Boolean)
+                        : undefined,
+                    maxWords: question.kind === "longtext" ? question.maxWords : undefined
+                }))
                 return acc
             }, {}
         )
 
+        for (const role of enabledRoles) {
+            const error = questions[role].map(findRoleQuestionError).find(Boolean)
+            if (error) {
+                toast.error(`Invalid Question for ${role}`, { description: error })
+                return
+            }
+        }
+
+        setIsLoading(true);
+
         fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/config/${subteamPk}`, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
                 isRecruiting: recruitmentEnabled[subteamPk],
+                opensAt: opensAt ?? null,
+                closesAt: closesAt ?? null,
                 roles: enabledRoles,
                 roleSpecificQuestions: questions
             })
@@ -567,6 +637,13 @@ export const DashboardTeamRecruitment = () => {
     }
 
     // --- MISC UI STUFF ---
+    // Older applications didn't store kinds, so fall back to the questions for the roles they applied to
+    const getQuestionKind = (application: KanbanApplicationDetails, prompt: string): RoleQuestionKind =>
+        application.responseKinds?.[prompt] ??
+        application.rolePreferences
+            .flatMap(pref => roleSpecQuestions[pref.subteamPk]?.[pref.role] ?? [])
+            .find(question => question.prompt === prompt)?.kind ?? "longtext";
+
     const getTimelineStageIcon = (stage: string) => {
         switch (stage) {
             case 'Applied':
@@ -579,6 +656,8 @@ export const DashboardTeamRecruitment = () => {
                 return <PartyPopperIcon />
             case 'Rejected':
                 return <ThumbsDownIcon />
+            case 'Withdrawn':
+                return <UndoIcon />
         }
     }
 
@@ -676,6 +755,26 @@ export const DashboardTeamRecruitment = () => {
                                                         <Label htmlFor="airplane-mode">Enable Recruiting for the {subteam.attributes.friendlyName.toUpperCase()} subteam</Label>
                                                     </div>
 
+                                                    <p className="text-lg text-muted-foreground mt-5">When are Applications Open?</p>
+                                                    <p>Applications open and close on their own within this window while recruiting is enabled. Leave either side empty for no limit. Applicants see a <b>Closing Soon</b> badge in the final 48 hours.</p>
+                                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2 max-w-xl">
+                                                        {(["opensAt", "closesAt"] as const).map((key) => (
+                                                            <div key={key} className="flex flex-col gap-2">
+                                                                <Label htmlFor={`${subteam.pk}-${key}`}>{key === "opensAt" ? "Opens" : "Closes"}</Label>
+                                                                <Input
+                                                                    id={`${subteam.pk}-${key}`}
+                                                                    type="datetime-local"
+                                                                    value={toDateTimeLocalValue(recruitmentWindows[subteam.pk]?.[key])}
+                                                                    onChange={(e) => setRecruitmentWindows(windows => ({
+                                                                        ...windows,
+                                                                        [subteam.pk]: { ...windows[subteam.pk], [key]: fromDateTimeLocalValue(e.target.value) }
+                                                                    }))}
+                                                                />
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                    {recruitmentEnabled[subteam.pk] && <RecruitmentWindowStatus recruitmentWindow={recruitmentWindows[subteam.pk] ?? {}} />}
+
                                                     <p className="text-lg text-muted-foreground mt-5">What roles are you recruiting for?</p>
                                                     <p>Please note that the roles you define below are only for the <b>{subteam.attributes.friendlyName.toUpperCase()}</b> subteam. Here's a quick guide of sample roles, just in case you're stuck!</p>
                                                     <ul className="list-disc pl-8 pt-2">
@@ -714,21 +813,20 @@ export const DashboardTeamRecruitment = () => {
                                                     {
                                                         (roles[subteam.pk] && roles[subteam.pk].length > 0) ?
                                                             roles[subteam.pk].map((role) => (
-                                                                <div className="flex flex-col gap-2 mt-2 mb-2">
-                                                                    <Label>Question for {role.text} Applicants</Label>
-                                                                    <Input
-                                                                        value={roleSpecQuestions[subteam.pk][role.text]?.at(0) ?? ""}
-                                                                        onChange={(e) => {
-                                                                            setRoleSpecQuestions(questions => ({
-                                                                                ...questions,
-                                                                                [subteam.pk]: {
-                                                                                    ...questions[subteam.pk],
-                                                                                    [role.text]: [e.target.value]
-                                                                                }
-                                                                            }))
-                                                                        }}
-                                                                    />
-                                                                </div>
+                                                                <RoleQuestionBuilder
+                                                                    key={role.text}
+                                                                    role={role.text}
+                                                                    questions={roleSpecQuestions[subteam.pk]?.[role.text] ?? []}
+                                                                    onChange={(roleQuestions) => {
+                                                                        setRoleSpecQuestions(questions => ({
+                                                                            ...questions,
+                                                                            [subteam.pk]: {
+                                                                                ...questions[subteam.pk],
+                                                                                [role.text]: roleQuestions
+                                                                            }
+                                                                        }))
+                                                                    }}
+                                                                />
                                                             )) :
                                                             <p>Please Create roles in the previous section to enable Role Specific Questions</p>
                                                     }
@@ -930,7 +1028,7 @@ export const DashboardTeamRecruitment = () => {
                                             {Object.entries(selectedApplicationDetails.responses).map(([question, answer]) => (
                                                 <div key={question} className="bg-muted/50 p-3 rounded">
                                                     <p className="text-sm font-medium mb-1">{question}</p>
-                                                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{answer as string}</p>
+                                                    <RoleQuestionAnswer kind={getQuestionKind(selectedApplicationDetails, question)} answer={answer as string} />
                                                 </div>
                                             ))}
                                         </div>
@@ -945,10 +1043,13 @@ export const DashboardTeamRecruitment = () => {
                                             <TimelineItem
                                                 key={index}
                                                 date={new Date(history.changedAt).toLocaleString()}
-                                                title={history.stage}
-                                                icon={getTimelineStageIcon(history.stage)}
+                                                title={history.action === 'edited' ? 'Edited by Applicant' : history.stage}
+                                                icon={history.action === 'edited' ? <PencilIcon /> : getTimelineStageIcon(history.stage)}
                                                 iconColor={STAGE_STYLES[history.stage]}
-                                                description={`Changed by ${history.changedBy || 'System'}`}
+                                                description={[
+                                                    history.action === 'edited' || history.action === 'withdrawn' ? 'By the applicant' : `Changed by ${history.changedBy || 'System'}`,
+                                                    history.note
+                                                ].filter(Boolean).join(' · ')}
                                             />
                                         ))}
                                     </Timeline>
@@ -1005,12 +1106,38 @@ export const DashboardTeamRecruitment = () => {
                             </div>
 
                             {/* Applicant Profile Section */}
-                            <p className="text-lg text-muted-foreground leading-0">{selectedApplication?.name.split(" ")[0]}'s Resume</p>
-                            <iframe
-                                src={applicantUrls?.resumeUrl}
-                                className="w-full flex-grow-1 border rounded-md"
-                                title="Resume"
-                            />
+                            {selectedApplicationDetails?.documents?.length ? (
+                                <>
+                                    <p className="text-lg text-muted-foreground leading-0">{selectedApplication?.name.split(" ")[0]}'s Documents</p>
+                                    <div className="flex gap-2 flex-wrap">
+                                        {selectedApplicationDetails.documents.map((doc) => (
+                                            <Button
+                                                key={doc.versionId}
+                                                size="sm"
+                                                variant={doc.versionId === selectedDocumentVersionId ? "default" : "outline"}
+                                                onClick={() => setSelectedDocumentVersionId(doc.versionId)}
+                                            >
+                                                {doc.name}
+                                                <span className="text-xs opacity-70">{DOCUMENT_KIND_LABELS[doc.kind]} v{doc.version}</span>
+                                            </Button>
+                                        ))}
+                                    </div>
+                                    <iframe
+                                        src={selectedDocumentVersionId ? documentUrls[selectedDocumentVersionId] : undefined}
+                                        className="w-full flex-grow-1 border rounded-md"
+                                        title="Submitted Document"
+                                    />
+                                </>
+                            ) : (
+                                <>
+                                    <p className="text-lg text-muted-foreground leading-0">{selectedApplication?.name.split(" ")[0]}'s Resume</p>
+                                    <iframe
+                                        src={applicantUrls?.resumeUrl}
+                                        className="w-full flex-grow-1 border rounded-md"
+                                        title="Resume"
+                                    />
+                                </>
+                            )}
 
                             {/* {selectedApplication.profile.previousInvolvement && (
                                             <div className="col-span-full">
@@ -1193,4 +1320,136 @@ export const DashboardTeamRecruitment = () => {
 
         </div >
     )
-}
\ No newline at end of file
+}
+
+const RoleQuestionBuilder = ({ role, questions, onChange }: { role: string, questions: RoleQuestion[], onChange: (questions: RoleQuestion[]) => void }) => {
+    const updateQuestion = (index: number, update: Partial<RoleQuestion>) =>
+        onChange(questions.map((question, i) => i === index ? { ...question, ...update } : question));
+
+    return (
+        <div className="flex flex-col gap-3 mt-2 mb-2">
+            <Label>Questions for {role} Applicants</Label>
+            {questions.map((question, index) => (
+                <div key={index} className="flex flex-col gap-3 rounded-md border p-3">
+                    <div className="flex gap-2">
+                        <Input
+                            placeholder="Question Prompt"
+                            value={question.prompt}
+                            onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                        />
+                        <Select value={question.kind} onValueChange={(kind) => updateQuestion(index, { kind: kind as RoleQuestionKind })}>
+                            <SelectTrigger className="w-48 shrink-0">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {ROLE_QUESTION_KINDS.map(({ kind, label }) => (
+                                    <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="icon" aria-label="Remove Question" onClick={() => onChange(questions.filter((_, i) => i !== index))}>
+                            <Trash2Icon />
+                        </Button>
+                    </div>
+
+                    <Input
+                        placeholder="Help Text (Optional)"
+                        value={question.helpText ?? ""}
+                        onChange={(e) => updateQuestion(index, { helpText: e.target.value || undefined })}
+                    />
+
+                    {(question.kind === "select" || question.kind === "multiselect") && (
+                        <Textarea
+                            placeholder="One Option per Line"
+                            value={question.options?.join("\n") ?? ""}
+                            onChange={(e) => updateQuestion(index, { options: e.target.value.split("\n") })}
+                        />
+                    )}
+
+                    <div className="flex items-center gap-6">
+                        <div className="flex items-center gap-2">
+                            <Switch
+                                id={`required-${role}-${index}`}
+                                checked={question.required}
+                                onCheckedChange={(required) => updateQuestion(index, { required })}
+                            />
+                            <Label htmlFor={`required-${role}-${index}`}>Required</Label>
+                        </div>
+
+                        {question.kind === "longtext" && (
+                            <div className="flex items-center gap-2">
+                                <Label htmlFor={`max-words-${role}-${index}`}>Word Limit</Label>
+                                <Input
+                                    id={`max-words-${role}-${index}`}
+                                    type="number"
+                                    min={1}
+                                    placeholder="None"
+                                    className="w-24"
+                                    value={question.maxWords ?? ""}
+                                    onChange={(e) => updateQuestion(index, { maxWords: Number(e.target.value) || undefined })}
+                                />
+                            </div>
+                        )}
+                    </div>
+                </div>
+            ))}
+
+            <Button variant="outline" size="sm" className="self-start" onClick={() => onChange([...questions, { prompt: "", kind: "longtext", required: true }])}>
+                <PlusIcon />
+                Add Question
+            </Button>
+        </div>
+    );
+}
+
+const RoleQuestionAnswer = ({ kind, answer }: { kind: RoleQuestionKind, answer: string }) => {
+    /* Answers from before URLs were Checked could hold Any Scheme */
+    if (kind === "url" && !isHttpUrl(answer))
+        return <p className="text-sm text-muted-foreground break-all">{answer}</p>;
+
+    switch (kind) {
+        case "file":
+        case "url":
+            return (
+                <a
+                    href={kind === "file" ? getApplicantFileHref(answer) : answer}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-primary hover:underline flex items-center gap-1 break-all"
+                >
+                    {kind === "file" ? "View Uploaded File" : answer}
+                    <ExternalLinkIcon className="h-3 w-3 shrink-0" />
+                </a>
+            );
+
+        case "multiselect":
+            return (
+                <div className="flex flex-wrap gap-1">
+                    {splitMultiselect(answer).map((choice) => (
+                        <Badge key={choice} variant="secondary">{choice}</Badge>
+                    ))}
+                </div>
+            );
+
+        default:
+            return <p className="text-sm text-muted-foreground whitespace-pre-wrap">{answer}</p>;
+    }
+}
+
+const RecruitmentWindowStatus = ({ recruitmentWindow }: { recruitmentWindow: RecruitmentWindow }) => {
+    const state = getRecruitmentWindowState(recruitmentWindow);
+    const now = Date.now();
+
+    const message = {
+        'upcoming': `Applications open in ${formatCountdown(Date.parse(recruitmentWindow.opensAt!) - now)}.`,
+        'open': recruitmentWindow.closesAt ? `Accepting applications, closes in ${formatCountdown(Date.parse(recruitmentWindow.closesAt) - now)}.` : "Accepting applications with no deadline.",
+        'closing-soon': `Closing soon, ${formatCountdown(Date.parse(recruitmentWindow.closesAt!) - now)} left.`,
+        'closed': "The deadline has passed, applicants can no longer apply."
+    }[state];
+
+    return (
+        <p className={cn("text-sm mt-2", state === 'closing-soon' || state === 'closed' ? "text-destructive" : "text-muted-foreground")}>
+            {message}
+        </p>
+    );
+}
@@ -45,11 +45,13 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar"
 import type { CorpUserInfo } from "@/pages/CorpDashboard"
+import { useNavigate } from "react-router-dom"
 
 export function SidebarUserInfo(props: {
   userInfo: CorpUserInfo
 }) {
   const { isMobile } = useSidebar()
+  const navigate = useNavigate()
   const getFallbackAvatar = () => {
     const nameArray = props.userInfo.name.split(" ");
     const initialsArray = [...nameArray.slice(0)]
@@ -99,9 +101,9 @@ export function SidebarUserInfo(props: {
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
             <DropdownMenuGroup>
-              <DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate("/profile")}>
                 <BadgeCheck />
-                Profile
+                My Profile
               </DropdownMenuItem>
               <DropdownMenuItem>
                 <Bell />
@@ -0,0 +1,357 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as React from "react"
+import Cropper, { type Area, type Point } from "react-easy-crop"
+import { CheckCircle2Icon, ClockIcon, Loader2Icon, Minus, Plus, RotateCwIcon, UploadCloudIcon, XIcon } from "lucide-react"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import { compressAvatar, cropImage, readFileAsDataUrl, uploadAvatar, validateAvatarFile } from "@/lib/avatar"
+import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar"
+import { Button } from "../ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog"
+import { Progress } from "../ui/progress"
+import { Slider } from "../ui/slider"
+
+export interface AvatarUploaderProps {
+    /* Presigned POST Endpoint for the Processed Image */
+    uploadUrlEndpoint: string,
+    defaultPreviewUrl?: string,
+    defaultAvatarKey?: string,
+    fallback?: React.ReactNode,
+    className?: string,
+    /* Shows the Current Picture without Letting a New One be Chosen */
+    disabled?: boolean,
+    onUploadingChange?: (isUploading: boolean) => void,
+    onUploaded: (avatarKey: string, previewUrl: string) => void
+}
+
+type AvatarUploadStatus = "idle" | "processing" | "uploading" | "uploaded" | "in_review" | "rejected" | "failed"
+
+const MIN_ZOOM = 1
+const MAX_ZOOM = 3
+const ZOOM_STEP = 0.1
+
+export const AvatarUploader = (props: AvatarUploaderProps) => {
+    const fileUploadRef = React.useRef<HTMLInputElement>(null)
+    const abortControllerRef = React.useRef<AbortController>(undefined)
+    /* Kept after a Failure so Retrying doesn't Re-process the Image */
+    const pendingUploadRef = React.useRef<{ file: File, previewUrl: string }>(undefined)
+    /* Aborts from Unmounting aren't the User Cancelling, so they stay Silent */
+    const isUnmountedRef = React.useRef(false)
+
+    const [preview, setPreview] = React.useState<string | undefined>(props.defaultPreviewUrl)
+    const [avatarKey, setAvatarKey] = React.useState<string | undefined>(props.defaultAvatarKey)
+    const [status, setStatus] = React.useState<AvatarUploadStatus>(props.defaultAvatarKey ? "uploaded" : "idle")
+    const [progress, setProgress] = React.useState(0)
+    const [pendingPreview, setPendingPreview] = React.useState<string>()
+    const [moderationMessage, setModerationMessage] = React.useState<string>()
+
+    // Cropping State
+    const [cropImageSrc, setCropImageSrc] = React.useState<string | null>(null)
+    const [crop, setCrop] = React.useState<Point>({ x: 0, y: 0 })
+    const [zoom, setZoom] = React.useState(1)
+    const [croppedAreaPixels, setCroppedAreaPixels] = React.useState<Area | null>(null)
+
+    const isBusy = status === "processing" || status === "uploading"
+    const isLocked = isBusy || !!props.disabled
+
+    /* Parents Pass Inline Callbacks, a Ref keeps them from Re-running the Effect */
+    const onUploadingChangeRef = React.useRef(props.onUploadingChange)
+    onUploadingChangeRef.current = props.onUploadingChange
+
+    React.useEffect(() => {
+        onUploadingChangeRef.current?.(isBusy)
+    }, [isBusy])
+
+    React.useEffect(() => {
+        /* Don't Leave an Upload Running after the Editor Closes */
+        isUnmountedRef.current = false
+        return () => {
+            isUnmountedRef.current = true
+            abortControllerRef.current?.abort()
+        }
+    }, [])
+
+    async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0]
+
+        /* Reset Input to allow Re-selecting the Same File */
+        e.target.value = ""
+        if (!file)
+            return
+
+        const problem = await validateAvatarFile(file)
+        if (problem) {
+            toast.error(problem.title, { description: problem.description })
+            return
+        }
+
+        setCrop({ x: 0, y: 0 })
+        setZoom(1)
+        setCroppedAreaPixels(null)
+        setCropImageSrc(await readFileAsDataUrl(file))
+    }
+
+    const clearPendingUpload = () => {
+        if (pendingUploadRef.current)
+            URL.revokeObjectURL(pendingUploadRef.current.previewUrl)
+
+        pendingUploadRef.current = undefined
+        setPendingPreview(undefined)
+    }
+
+    const startUpload = () => {
+        const pendingUpload = pendingUploadRef.current
+        if (!pendingUpload)
+            return
+
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+        setStatus("uploading")
+
+        uploadAvatar(pendingUpload.file, {
+            uploadUrlEndpoint: props.uploadUrlEndpoint,
+            signal: controller.signal,
+            onProgress: setProgress
+        }).then(({ key, moderation, message }) => {
+            setModerationMessage(message)
+
+            /* Rejected Pictures can't be Used, the Previous One Stays */
+            if (moderation === "rejected") {
+                clearPendingUpload()
+                setStatus("rejected")
+                return
+            }
+
+            /* The Pending Preview becomes the Confirmed One */
+            if (preview?.startsWith("blob:")) URL.revokeObjectURL(preview)
+
+            pendingUploadRef.current = undefined
+            setPendingPreview(undefined)
+            setPreview(pendingUpload.previewUrl)
+            setAvatarKey(key)
+            setStatus(moderation === "pending" ? "in_review" : "uploaded")
+            props.onUploaded(key, pendingUpload.previewUrl)
+        }).catch((e) => {
+            if (e.name === "AbortError") {
+                if (isUnmountedRef.current)
+                    return
+
+                clearPendingUpload()
+                setStatus(avatarKey ? "uploaded" : "idle")
+                toast.info("Upload Cancelled")
+                return
+            }
+
+            console.error(e)
+            setStatus("failed")
+            toast.error("Upload failed", { description: e.message || "Please try again later" })
+        })
+    }
+
+    const changeZoom = (delta: number) => {
+        setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)))
+    }
+
+    /* The Cropper Pans with the Arrow Keys on its own, Zoom is Added on Top */
+    const handleCropKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.key === "+" || e.key === "=") {
+            e.preventDefault()
+            changeZoom(ZOOM_STEP)
+        } else if (e.key === "-" || e.key === "_") {
+            e.preventDefault()
+            changeZoom(-ZOOM_STEP)
+        } else if (e.key === "Enter") {
+            e.preventDefault()
+            processAndUploadAvatar()
+        }
+    }
+
+    async function processAndUploadAvatar() {
+        if (!cropImageSrc || !croppedAreaPixels) return
+
+        setStatus("processing")
+        setCropImageSrc(null)
+        try {
+            const croppedBlob = await cropImage(cropImageSrc, croppedAreaPixels)
+            const file = await compressAvatar(croppedBlob)
+
+            clearPendingUpload()
+            pendingUploadRef.current = { file, previewUrl: URL.createObjectURL(file) }
+            setPendingPreview(pendingUploadRef.current.previewUrl)
+            startUpload()
+        } catch (e) {
+            console.error(e)
+            setStatus(avatarKey ? "uploaded" : "idle")
+            toast.error("Failed to Process Image", { description: "Please try a different image." })
+        }
+    }
+
+    return (
+        <div className={cn("flex flex-col items-center", props.className)}>
+            <Avatar
+                role="button"
+                tabIndex={isLocked ? -1 : 0}
+                title='Upload Profile Picture'
+                aria-label='Upload Profile Picture'
+                aria-disabled={isLocked}
+                onClick={() => !isLocked && fileUploadRef.current?.click()}
+                onKeyDown={(e) => {
+                    if ((e.key === "Enter" || e.key === " ") && !isLocked) {
+                        e.preventDefault()
+                        fileUploadRef.current?.click()
+                    }
+                }}
+                className={cn("size-32 rounded-full cursor-pointer outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50", isBusy && "opacity-60 cursor-progress", props.disabled && "cursor-not-allowed")}
+            >
+                <AvatarImage src={pendingPreview ?? preview} alt="Profile" className="object-cover" />
+                <AvatarFallback>
+                    {isBusy ? <Loader2Icon className='size-8 animate-spin' /> : (props.fallback ?? <UploadCloudIcon className='size-8' />)}
+                </AvatarFallback>
+            </Avatar>
+
+            <input
+                ref={fileUploadRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                aria-hidden
+                tabIndex={-1}
+                onChange={onFileChange}
+            />
+
+            <div className='flex flex-col items-center gap-2 mt-4 w-64' aria-live="polite">
+                {status === "idle" && <p>Upload your Profile Picture</p>}
+                {status === "processing" && <p className='text-sm text-muted-foreground'>Processing image...</p>}
+
+                {status === "uploading" && (
+                    <>
+                        <Progress value={progress} aria-label="Upload Progress" className="w-full bg-muted" />
+                        <div className='flex w-full items-center text-xs text-muted-foreground'>
+                            <span className='flex-grow-1'>Uploading... {progress}%</span>
+                            <Button variant="ghost" size="sm" onClick={() => abortControllerRef.current?.abort()}>
+                                <XIcon />
+                                Cancel
+                            </Button>
+                        </div>
+                    </>
+                )}
+
+                {status === "failed" && (
+                    <div className='flex items-center gap-2'>
+                        <span role="alert" className='text-xs text-red-500 font-medium'>Upload failed.</span>
+                        {pendingPreview && (
+                            <Button variant="outline" size="sm" onClick={startUpload}>
+                                <RotateCwIcon />
+                                Retry
+                            </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => fileUploadRef.current?.click()}>Choose Another</Button>
+                    </div>
+                )}
+
+                {status === "rejected" && (
+                    <div className='flex flex-col items-center gap-1'>
+                        <span role="alert" className='text-xs text-red-500 font-medium text-center'>
+                            This picture wasn't accepted. {moderationMessage ?? "Please choose a different photo."}
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => fileUploadRef.current?.click()}>Choose Another</Button>
+                    </div>
+                )}
+
+                {status === "in_review" && avatarKey && (
+                    <div className='flex flex-col items-center gap-1'>
+                        <span className='flex items-center gap-1 text-sm text-muted-foreground'>
+                            <ClockIcon className='size-4' />
+                            Uploaded, waiting for review
+                        </span>
+                        {moderationMessage && <span className='text-xs text-muted-foreground text-center'>{moderationMessage}</span>}
+                        <Button variant="link" size="sm" className='h-auto p-0' onClick={() => fileUploadRef.current?.click()}>Change Picture</Button>
+                    </div>
+                )}
+
+                {status === "uploaded" && avatarKey && (
+                    <div className='flex flex-col items-center gap-1'>
+                        <span className='flex items-center gap-1 text-sm text-green-600'>
+                            <CheckCircle2Icon className='size-4' />
+                            Profile picture uploaded
+                        </span>
+                        <span className='text-xs text-muted-foreground font-mono truncate max-w-full' title={avatarKey}>{avatarKey}</span>
+                        <Button variant="link" size="sm" className='h-auto p-0' onClick={() => fileUploadRef.current?.click()}>Change Picture</Button>
+                    </div>
+                )}
+            </div>
+
+            <Dialog open={cropImageSrc != null} onOpenChange={(open) => { if (!open) setCropImageSrc(null) }}>
+                <DialogContent className="max-w-xl">
+                    <DialogHeader>
+                        <DialogTitle>Crop your Profile Picture</DialogTitle>
+                        <DialogDescription id="avatar-crop-instructions">
+                            Drag or use the arrow keys to position your photo. Scroll or press + and - to zoom, then press Enter to upload.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div
+                        className="relative h-[400px] w-full mt-4 bg-muted rounded-md overflow-hidden focus-within:ring-[3px] focus-within:ring-ring/50"
+                        onKeyDown={handleCropKeyDown}
+                    >
+                        {cropImageSrc && (
+                            <Cropper
+                                image={cropImageSrc}
+                                crop={crop}
+                                zoom={zoom}
+                                aspect={1}
+                                onCropChange={setCrop}
+                                onZoomChange={setZoom}
+                                onCropComplete={(_, pixels) => setCroppedAreaPixels(pixels)}
+                                minZoom={MIN_ZOOM}
+                                maxZoom={MAX_ZOOM}
+                                keyboardStep={5}
+                                cropperProps={{
+                                    "aria-label": "Profile Picture Crop Area",
+                                    "aria-describedby": "avatar-crop-instructions"
+                                }}
+                            />
+                        )}
+                    </div>
+                    <div className="flex items-center justify-center gap-4 mt-4 w-full">
+                        <Button variant="ghost" size="icon" aria-label="Zoom Out" disabled={zoom <= MIN_ZOOM} onClick={() => changeZoom(-ZOOM_STEP)}>
+                            <Minus />
+                        </Button>
+                        <Slider
+                            value={[zoom]}
+                            min={MIN_ZOOM}
+                            max={MAX_ZOOM}
+                            step={ZOOM_STEP}
+                            aria-label="Zoom"
+                            onValueChange={(value) => setZoom(value[0])}
+                            className="w-[50%]"
+                        />
+                        <Button variant="ghost" size="icon" aria-label="Zoom In" disabled={zoom >= MAX_ZOOM} onClick={() => changeZoom(ZOOM_STEP)}>
+                            <Plus />
+                        </Button>
+                    </div>
+                    <DialogFooter className="mt-4">
+                        <Button variant="outline" onClick={() => setCropImageSrc(null)}>Cancel</Button>
+                        <Button onClick={processAndUploadAvatar}>Crop & Upload</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
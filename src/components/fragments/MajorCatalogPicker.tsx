@@ -0,0 +1,129 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as React from "react"
+import { Check, ChevronsUpDown } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { searchMajorCatalog, type UMDApiMajorListResponse } from "@/lib/majors"
+import { Button } from "../ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "../ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover"
+
+export interface MajorCatalogPickerProps {
+    catalog: UMDApiMajorListResponse[],
+    selected: UMDApiMajorListResponse[],
+    onSelectedChange: (selected: UMDApiMajorListResponse[]) => void,
+    maxSelections?: number,
+    placeholder: string,
+    searchPlaceholder: string,
+    /* Read by Screen Readers in place of the Visible Label */
+    ariaLabel?: string
+}
+
+export const MajorCatalogPicker = (props: MajorCatalogPickerProps) => {
+    const [open, setOpen] = React.useState(false)
+    const [query, setQuery] = React.useState("")
+    const groups = React.useMemo(() => searchMajorCatalog(props.catalog, query), [props.catalog, query])
+
+    const isSelected = (major: UMDApiMajorListResponse) => props.selected.some((el) => el.name === major.name)
+    const atLimit = props.maxSelections != undefined && props.selected.length >= props.maxSelections
+    const resultCount = groups.reduce((count, group) => count + group.majors.length, 0)
+
+    /* Announced Politely so Screen Readers hear Results without Losing their Place */
+    const [announcement, setAnnouncement] = React.useState("")
+    React.useEffect(() => {
+        if (open)
+            setAnnouncement(resultCount == 0 ? "No results" : `${resultCount} result${resultCount == 1 ? "" : "s"} available`)
+    }, [open, resultCount])
+
+    const toggleMajor = (major: UMDApiMajorListResponse) => {
+        if (isSelected(major)) {
+            props.onSelectedChange(props.selected.filter((el) => el.name !== major.name))
+            setAnnouncement(`${major.name} removed`)
+            return
+        }
+
+        /* Single Selection Pickers Replace rather than Append */
+        if (props.maxSelections == 1) {
+            props.onSelectedChange([major])
+            setAnnouncement(`${major.name} selected`)
+            setOpen(false)
+            return
+        }
+
+        if (!atLimit) {
+            props.onSelectedChange([...props.selected, major])
+            setAnnouncement(`${major.name} selected, ${props.selected.length + 1} chosen`)
+        }
+    }
+
+    return (
+        <>
+            <Popover open={open} onOpenChange={setOpen}>
+                <PopoverTrigger asChild>
+                    <Button
+                        variant="outline"
+                        role="combobox"
+                        aria-expanded={open}
+                        aria-haspopup="listbox"
+                        aria-label={props.ariaLabel && `${props.ariaLabel}: ${props.selected.length > 0 ? props.selected.map((el) => el.name).join(", ") : props.placeholder}`}
+                        className="justify-between max-w-full"
+                    >
+                        <span className="truncate">
+                            {props.selected.length > 0
+                                ? props.selected.map((el) => el.name).join(", ")
+                                : props.placeholder}
+                        </span>
+                        <ChevronsUpDown className="opacity-50" />
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-[600px] max-w-[600px] p-0">
+                    <Command shouldFilter={false}>
+                        <CommandInput placeholder={props.searchPlaceholder} aria-label={props.searchPlaceholder} className="h-9" value={query} onValueChange={setQuery} />
+                        <CommandList aria-multiselectable={props.maxSelections != 1}>
+                            <CommandEmpty>No Majors Found</CommandEmpty>
+                            {groups.map((group) => (
+                                <CommandGroup key={group.college} heading={group.college}>
+                                    {group.majors.map((major) => (
+                                        <CommandItem
+                                            key={major.major_id}
+                                            value={major.major_id}
+                                            aria-checked={isSelected(major)}
+                                            disabled={atLimit && props.maxSelections != 1 && !isSelected(major)}
+                                            onSelect={() => toggleMajor(major)}
+                                        >
+                                            <span>{major.name}</span>
+                                            <Check
+                                                className={cn(
+                                                    "ml-auto",
+                                                    isSelected(major) ? "opacity-100" : "opacity-0"
+                                                )}
+                                            />
+                                        </CommandItem>
+                                    ))}
+                                </CommandGroup>
+                            ))}
+                        </CommandList>
+                    </Command>
+                </PopoverContent>
+            </Popover>
+
+            <span role="status" aria-live="polite" className="sr-only">{announcement}</span>
+        </>
+    )
+}
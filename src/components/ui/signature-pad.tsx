@@ -0,0 +1,130 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as React from "react"
+import { EraserIcon } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Button } from "./button"
+
+interface SignaturePadProps {
+    className?: string
+    /* Receives a PNG Data URL of the Signature, or null once Cleared */
+    onChange: (signature: string | null) => void
+}
+
+function SignaturePad({ className, onChange }: SignaturePadProps) {
+    const canvasRef = React.useRef<HTMLCanvasElement>(null)
+    const isDrawingRef = React.useRef(false)
+    const [isEmpty, setIsEmpty] = React.useState(true)
+
+    React.useEffect(() => {
+        /* Match the Backing Store to the Rendered Size so Strokes aren't Blurry */
+        const canvas = canvasRef.current
+        if (!canvas) return
+
+        const ratio = window.devicePixelRatio || 1
+        canvas.width = canvas.offsetWidth * ratio
+        canvas.height = canvas.offsetHeight * ratio
+
+        const ctx = canvas.getContext("2d")
+        if (!ctx) return
+
+        ctx.scale(ratio, ratio)
+        ctx.lineWidth = 2
+        ctx.lineCap = "round"
+        ctx.lineJoin = "round"
+        ctx.strokeStyle = "#000000"
+    }, [])
+
+    const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect()
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+    }
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = e.currentTarget.getContext("2d")
+        if (!ctx) return
+
+        const { x, y } = getPoint(e)
+        e.currentTarget.setPointerCapture(e.pointerId)
+        isDrawingRef.current = true
+        ctx.beginPath()
+        ctx.moveTo(x, y)
+    }
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!isDrawingRef.current) return
+        const ctx = e.currentTarget.getContext("2d")
+        if (!ctx) return
+
+        const { x, y } = getPoint(e)
+        ctx.lineTo(x, y)
+        ctx.stroke()
+    }
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!isDrawingRef.current) return
+        isDrawingRef.current = false
+        setIsEmpty(false)
+        onChange(e.currentTarget.toDataURL("image/png"))
+    }
+
+    const clearSignature = () => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext("2d")
+        if (!canvas || !ctx) return
+
+        ctx.clearRect(0, 0, canvas.width, canvas.height)
+        setIsEmpty(true)
+        onChange(null)
+    }
+
+    return (
+        <div className={cn("relative w-full h-40 rounded-md border bg-white", className)}>
+            <canvas
+                ref={canvasRef}
+                aria-label="Signature Pad"
+                className="w-full h-full touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+            />
+
+            {isEmpty && (
+                <span className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground pointer-events-none">
+                    Sign Here
+                </span>
+            )}
+
+            <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="absolute top-1 right-1 text-muted-foreground"
+                onClick={clearSignature}
+                disabled={isEmpty}
+            >
+                <EraserIcon />
+                Clear
+            </Button>
+        </div>
+    )
+}
+
+export { SignaturePad }
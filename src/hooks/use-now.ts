@@ -0,0 +1,30 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as React from "react"
+
+export function useNow(intervalMs = 30000) {
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(interval)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,295 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import imageCompression from "browser-image-compression"
+import type { Area } from "react-easy-crop"
+import { toast } from "sonner"
+import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config"
+
+export interface AvatarUploadOptions {
+    /* Presigned POST Endpoint, fileName and contentType are Appended */
+    uploadUrlEndpoint: string,
+    signal: AbortSignal,
+    onProgress: (percent: number) => void,
+    maxAttempts?: number
+}
+
+interface AvatarUploadTarget {
+    uploadUrl: string,
+    key: string,
+    fields: { [field: string]: string },
+    /* Sent when the Server Moderates Avatars, Reports the Verdict for the Uploaded Key */
+    confirmUrl?: string
+}
+
+export type AvatarModerationStatus = "approved" | "pending" | "rejected"
+
+export interface AvatarUploadResult {
+    key: string,
+    moderation: AvatarModerationStatus,
+    /* Shown to the User, ex. why the Picture was Rejected */
+    message?: string
+}
+
+const ALLOWED_AVATAR_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"]
+const AVATAR_MAX_FILE_BYTES = 20 * 1024 * 1024
+
+/* Marks Failures worth Retrying, ex. Network Drops and 5xx Responses */
+const TRANSIENT = "transient"
+
+function readFileHeader(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onloadend = () => {
+            if (!(reader.result instanceof ArrayBuffer)) {
+                reject(new Error("Failed to Read File"))
+                return
+            }
+
+            resolve(Array.from(new Uint8Array(reader.result)).map((byte) => byte.toString(16).padStart(2, "0")).join(""))
+        }
+
+        reader.readAsArrayBuffer(file.slice(0, 4))
+    })
+}
+
+/* Resolves to a Toast-able Problem with the File, or undefined if it's Usable */
+export async function validateAvatarFile(file: File): Promise<{ title: string, description: string } | undefined> {
+    if (!ALLOWED_AVATAR_TYPES.includes(file.type))
+        return { title: "Invalid file type", description: "Please upload an image (JPEG, PNG, WEBP, GIF)" }
+
+    /* Magic Numbers for PNG, JPEG, GIF and RIFF (WebP) */
+    const header = await readFileHeader(file).catch(() => "")
+    if (!["89504e47", "ffd8ff", "47494638", "52494646"].some((magic) => header.startsWith(magic)))
+        return { title: "Invalid file content", description: "The file content does not match its extension." }
+
+    /* Prevent the Browser Hanging while Resizing Huge Images */
+    if (file.size > AVATAR_MAX_FILE_BYTES)
+        return { title: "File is too large!", description: "Maximum file size is 20MB" }
+
+    return undefined
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(file)
+    })
+}
+
+export function cropImage(imageSrc: string, pixelCrop: Area): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const image = new Image()
+        image.src = imageSrc
+        image.onload = () => {
+            const canvas = document.createElement("canvas")
+            const ctx = canvas.getContext("2d")
+            if (!ctx) {
+                reject(new Error("No 2d context"))
+                return
+            }
+
+            canvas.width = pixelCrop.width
+            canvas.height = pixelCrop.height
+            ctx.drawImage(image, pixelCrop.x, pixelCrop.y, pixelCrop.width, pixelCrop.height, 0, 0, pixelCrop.width, pixelCrop.height)
+            canvas.toBlob((blob) => {
+                if (!blob) {
+                    reject(new Error("Canvas is empty"))
+                    return
+                }
+
+                resolve(blob)
+            }, "image/webp", 1.0)
+        }
+
+        image.onerror = (error) => reject(error)
+    })
+}
+
+export async function compressAvatar(blob: Blob): Promise<File> {
+    /* Stays under the 500KB Bucket Limit, with some Buffer */
+    const compressedBlob = await imageCompression(new File([blob], "avatar.webp", { type: "image/webp" }), {
+        maxSizeMB: 0.45,
+        maxWidthOrHeight: 512,
+        useWebWorker: true,
+        initialQuality: 0.8,
+        fileType: "image/webp"
+    })
+
+    return new File([compressedBlob], "avatar.webp", { type: "image/webp" })
+}
+
+/* Short-Lived URL for an Uploaded avatarKey, so Only the Key needs Saving */
+export async function fetchAvatarPreviewUrl(previewUrlEndpoint: string, avatarKey: string): Promise<string> {
+    const separator = previewUrlEndpoint.includes("?") ? "&" : "?"
+    const res = await fetch(`${previewUrlEndpoint}${separator}key=${encodeURIComponent(avatarKey)}`)
+    if (!res.ok)
+        throw new Error(`Failed to get avatar preview URL: HTTP ${res.status}`)
+
+    const { url } = await res.json() as { url: string }
+    return url
+}
+
+/* fetch Rejects with a Bare TypeError when the Network Drops, Mark it Retryable */
+async function fetchWithRetryMarker(url: string, init: RequestInit): Promise<Response> {
+    try {
+        return await fetch(url, init)
+    } catch (e) {
+        if (e instanceof DOMException && e.name === "AbortError")
+            throw e
+
+        throw new Error("Network error, please check your connection", { cause: TRANSIENT })
+    }
+}
+
+async function getUploadTarget(file: File, options: AvatarUploadOptions): Promise<AvatarUploadTarget> {
+    const separator = options.uploadUrlEndpoint.includes("?") ? "&" : "?"
+    const res = await fetchWithRetryMarker(`${options.uploadUrlEndpoint}${separator}fileName=${encodeURIComponent(file.name)}&contentType=${encodeURIComponent(file.type)}`, {
+        signal: options.signal
+    })
+
+    if (!res.ok) {
+        const err = await res.json().catch(() => undefined)
+        throw new Error(err?.message || "Failed to get upload URL", { cause: res.status >= 500 ? TRANSIENT : undefined })
+    }
+
+    return await res.json() as AvatarUploadTarget
+}
+
+function postToUploadTarget(file: File, target: AvatarUploadTarget, options: AvatarUploadOptions): Promise<void> {
+    /* XHR rather than fetch, since fetch can't Report Upload Progress */
+    return new Promise((resolve, reject) => {
+        const formData = new FormData()
+        Object.entries(target.fields).forEach(([k, v]) => formData.append(k, v))
+        formData.append("file", file)
+
+        const xhr = new XMLHttpRequest()
+        const abort = () => xhr.abort()
+        options.signal.addEventListener("abort", abort)
+
+        xhr.upload.onprogress = (e) => {
+            if (e.lengthComputable)
+                options.onProgress(Math.round((e.loaded / e.total) * 100))
+        }
+
+        xhr.onload = () => {
+            options.signal.removeEventListener("abort", abort)
+            if (xhr.status >= 200 && xhr.status < 300) {
+                resolve()
+                return
+            }
+
+            if (xhr.status === 403 && xhr.responseText.includes("EntityTooLarge"))
+                reject(new Error("File is too large (S3 Limit Exceeded)"))
+            else if (xhr.status === 400)
+                reject(new Error("Please try a different image."))
+            else
+                reject(new Error(`Failed to upload to S3: ${xhr.status} ${xhr.statusText}`, { cause: xhr.status >= 500 ? TRANSIENT : undefined }))
+        }
+
+        xhr.onerror = () => {
+            options.signal.removeEventListener("abort", abort)
+            reject(new Error("Network error while uploading", { cause: TRANSIENT }))
+        }
+
+        xhr.onabort = () => {
+            options.signal.removeEventListener("abort", abort)
+            reject(new DOMException("Upload Cancelled", "AbortError"))
+        }
+
+        xhr.open("POST", target.uploadUrl)
+        xhr.send(formData)
+    })
+}
+
+async function confirmUpload(target: AvatarUploadTarget, options: AvatarUploadOptions): Promise<AvatarUploadResult> {
+    if (!target.confirmUrl)
+        return { key: target.key, moderation: "approved" }
+
+    const res = await fetchWithRetryMarker(target.confirmUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: target.key }),
+        signal: options.signal
+    })
+
+    if (!res.ok) {
+        const err = await res.json().catch(() => undefined)
+        throw new Error(err?.message || "Failed to confirm upload", { cause: res.status >= 500 ? TRANSIENT : undefined })
+    }
+
+    const verdict = await res.json() as { moderation?: AvatarModerationStatus, message?: string }
+    return { key: target.key, moderation: verdict.moderation ?? "approved", message: verdict.message }
+}
+
+function waitFor(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timeout = setTimeout(resolve, ms)
+        signal.addEventListener("abort", () => {
+            clearTimeout(timeout)
+            reject(new DOMException("Upload Cancelled", "AbortError"))
+        }, { once: true })
+    })
+}
+
+/* Resolves to the Uploaded avatarKey with its Moderation Verdict, Rejects with an AbortError when Cancelled */
+export async function uploadAvatar(file: File, options: AvatarUploadOptions): Promise<AvatarUploadResult> {
+    const maxAttempts = options.maxAttempts ?? 3
+    for (let attempt = 1; ; attempt++) {
+        try {
+            options.signal.throwIfAborted()
+            options.onProgress(0)
+
+            /* Fresh Target per Attempt, Presigned URLs can Expire between Retries */
+            const target = await getUploadTarget(file, options)
+            await postToUploadTarget(file, target, options)
+            return await confirmUpload(target, options)
+        } catch (e) {
+            const transient = e instanceof Error && e.cause === TRANSIENT
+            if (!transient || attempt >= maxAttempts)
+                throw e
+
+            await waitFor(1000 * 2 ** (attempt - 1), options.signal)
+        }
+    }
+}
+
+/* Points a Member's Profile at a Freshly Uploaded avatarKey, Resolves to whether it was Saved */
+export async function saveMemberAvatar(userPk: string, avatarKey: string): Promise<boolean> {
+    try {
+        const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/${userPk}/avatar`, {
+            method: "PUT",
+            headers: {
+                "Content-Type": "application/json"
+            },
+
+            body: JSON.stringify({ avatarKey })
+        })
+
+        if (!res.ok)
+            throw new Error(res.statusText)
+
+        toast.success("Profile Picture Updated!")
+        return true
+    } catch (e) {
+        toast.error("Failed to Update Profile Picture: " + (e as Error).message)
+        return false
+    }
+}
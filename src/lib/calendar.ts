@@ -0,0 +1,97 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ORGANIZATION_NAME } from "@/commons/strings"
+
+export interface CalendarEvent {
+    title: string,
+    /* ISO Timestamps */
+    startsAt: string,
+    endsAt: string,
+    location?: string,
+    description?: string
+}
+
+function formatICSDate(iso: string) {
+    /* 2026-09-01T18:00:00.000Z -> 20260901T180000Z */
+    return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function escapeICSText(text: string) {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+function utf8Length(char: string) {
+    const codePoint = char.codePointAt(0) ?? 0
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+}
+
+/* RFC 5545 Caps Lines at 75 Octets, Continuations Start with a Space that Counts towards them */
+function foldICSLine(line: string) {
+    const chunks = [""]
+    let octets = 0
+
+    /* Iterating the String Walks Code Points, so Surrogate Pairs are Never Split */
+    for (const char of line) {
+        const length = utf8Length(char)
+        const limit = chunks.length === 1 ? 75 : 74
+        if (octets + length > limit) {
+            chunks.push("")
+            octets = 0
+        }
+
+        chunks[chunks.length - 1] += char
+        octets += length
+    }
+
+    return chunks.join("\r\n ")
+}
+
+export function buildCalendarInvite(event: CalendarEvent, uid: string): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:-//${ORGANIZATION_NAME}//People Portal//EN`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "BEGIN:VEVENT",
+        `UID:${uid}`,
+        `DTSTAMP:${formatICSDate(new Date().toISOString())}`,
+        `DTSTART:${formatICSDate(event.startsAt)}`,
+        `DTEND:${formatICSDate(event.endsAt)}`,
+        `SUMMARY:${escapeICSText(event.title)}`,
+        ...(event.location ? [`LOCATION:${escapeICSText(event.location)}`] : []),
+        ...(event.description ? [`DESCRIPTION:${escapeICSText(event.description)}`] : []),
+        "END:VEVENT",
+        "END:VCALENDAR"
+    ]
+
+    return lines.map(foldICSLine).join("\r\n") + "\r\n"
+}
+
+export function downloadCalendarInvite(event: CalendarEvent, uid: string) {
+    const blob = new Blob([buildCalendarInvite(event, uid)], { type: "text/calendar;charset=utf-8" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${event.title.replace(/[^a-zA-Z0-9]+/g, "-")}.ics`
+    link.click()
+
+    /* Some Browsers Start the Download Asynchronously, so Revoke on a Later Tick */
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,98 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+export interface DelimitedTable {
+    headers: string[],
+    rows: string[][],
+    /* Line each Row Starts on in the Source, Blank Lines and Quoted Newlines Included */
+    lineNumbers: number[]
+}
+
+/* Spreadsheets Copy as Tab Separated, Exports are Usually Comma Separated */
+function detectDelimiter(text: string) {
+    const firstLine = text.split(/\r?\n/, 1)[0]
+    return (firstLine.split("\t").length > firstLine.split(",").length) ? "\t" : ","
+}
+
+/* RFC 4180 Parsing, Quoted Fields may Contain Delimiters, Quotes and Newlines */
+export function parseDelimitedText(text: string, hasHeaderRow: boolean): DelimitedTable {
+    const delimiter = detectDelimiter(text)
+    const records: { cells: string[], line: number }[] = []
+    let record: string[] = []
+    let field = ""
+    let inQuotes = false
+    let line = 1
+    let recordLine = 1
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                if (char === "\n" || (char === "\r" && text[i + 1] !== "\n"))
+                    line++
+
+                field += char
+            }
+
+            continue
+        }
+
+        if (char === '"' && field.length == 0) {
+            inQuotes = true
+        } else if (char === delimiter) {
+            record.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n")
+                i++
+
+            record.push(field)
+            records.push({ cells: record, line: recordLine })
+            record = []
+            field = ""
+            line++
+            recordLine = line
+        } else {
+            field += char
+        }
+    }
+
+    if (field.length > 0 || record.length > 0) {
+        record.push(field)
+        records.push({ cells: record, line: recordLine })
+    }
+
+    const nonEmpty = records
+        .map(({ cells, line }) => ({ cells: cells.map((cell) => cell.trim()), line }))
+        .filter(({ cells }) => cells.some((cell) => cell.length > 0))
+
+    const columnCount = Math.max(0, ...nonEmpty.map(({ cells }) => cells.length))
+    const padded = nonEmpty.map(({ cells }) => [...cells, ...Array(columnCount - cells.length).fill("")])
+    const lineNumbers = nonEmpty.map(({ line }) => line)
+
+    if (!hasHeaderRow)
+        return { headers: Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`), rows: padded, lineNumbers }
+
+    const [headers = [], ...rows] = padded
+    return { headers: headers.map((header, i) => header || `Column ${i + 1}`), rows, lineNumbers: lineNumbers.slice(1) }
+}
@@ -0,0 +1,77 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+export interface RecruitmentWindow {
+    /* ISO Timestamps, Missing means no Limit on that Side */
+    opensAt?: string | null,
+    closesAt?: string | null
+}
+
+export type RecruitmentWindowState = "upcoming" | "open" | "closing-soon" | "closed"
+
+export const CLOSING_SOON_MS = 48 * 60 * 60 * 1000
+
+export function getRecruitmentWindowState(recruitmentWindow: RecruitmentWindow, now: number = Date.now()): RecruitmentWindowState {
+    if (recruitmentWindow.opensAt && now < Date.parse(recruitmentWindow.opensAt))
+        return "upcoming"
+
+    if (recruitmentWindow.closesAt) {
+        const remaining = Date.parse(recruitmentWindow.closesAt) - now
+        if (remaining <= 0) return "closed"
+        if (remaining <= CLOSING_SOON_MS) return "closing-soon"
+    }
+
+    return "open"
+}
+
+export function isAcceptingApplications(recruitmentWindow: RecruitmentWindow, now: number = Date.now()) {
+    const state = getRecruitmentWindowState(recruitmentWindow, now)
+    return state === "open" || state === "closing-soon"
+}
+
+/* The Deadline an Applicant has to Beat, the Earliest Close among Windows still Accepting */
+export function soonestClosingAt(recruitmentWindows: RecruitmentWindow[], now: number = Date.now()): string | undefined {
+    return recruitmentWindows
+        .filter((el) => el.closesAt && isAcceptingApplications(el, now))
+        .map((el) => el.closesAt!)
+        .sort((a, b) => Date.parse(a) - Date.parse(b))[0]
+}
+
+/* Coarse on Purpose, "2d 4h" reads Better than a Ticking Clock for Anything but the Final Hour */
+export function formatCountdown(milliseconds: number): string {
+    const totalMinutes = Math.max(0, Math.floor(milliseconds / 60000))
+    const days = Math.floor(totalMinutes / 1440)
+    const hours = Math.floor((totalMinutes % 1440) / 60)
+    const minutes = totalMinutes % 60
+
+    if (days > 0) return `${days}d ${hours}h`
+    if (hours > 0) return `${hours}h ${minutes}m`
+    return minutes > 0 ? `${minutes}m` : "less than a minute"
+}
+
+/* datetime-local Inputs work in Local Time without a Zone, Timestamps are Stored as ISO */
+export function toDateTimeLocalValue(timestamp?: string | null): string {
+    if (!timestamp) return ""
+    const date = new Date(timestamp)
+    const pad = (value: number) => value.toString().padStart(2, "0")
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export function fromDateTimeLocalValue(value: string): string | null {
+    return value ? new Date(value).toISOString() : null
+}
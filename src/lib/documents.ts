@@ -0,0 +1,158 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config"
+
+export type ApplicantDocumentKind = "resume" | "portfolio" | "other"
+
+export interface ApplicantDocumentVersion {
+    versionId: string,
+    version: number,
+    fileKey: string,
+    fileName: string,
+    sizeBytes?: number,
+    uploadedAt: string
+}
+
+/* A Named Document in the Applicant's Library, Versions are Never Overwritten */
+export interface ApplicantDocument {
+    documentId: string,
+    name: string,
+    kind: ApplicantDocumentKind,
+    versions: ApplicantDocumentVersion[]
+}
+
+/* What an Application Stores, a Snapshot of the Version Attached at Submission */
+export interface PinnedDocument extends ApplicantDocumentVersion {
+    documentId: string,
+    name: string,
+    kind: ApplicantDocumentKind
+}
+
+export interface DocumentAttachment {
+    documentId: string,
+    versionId: string
+}
+
+export const DOCUMENT_KIND_LABELS: { [kind in ApplicantDocumentKind]: string } = {
+    resume: "Resume",
+    portfolio: "Portfolio",
+    other: "Other"
+}
+
+export const MAX_DOCUMENT_SIZE_MB = 10
+
+export function latestVersion(document: ApplicantDocument): ApplicantDocumentVersion | undefined {
+    return document.versions.reduce<ApplicantDocumentVersion | undefined>((latest, version) =>
+        !latest || version.version > latest.version ? version : latest, undefined)
+}
+
+/* Uploaded Files are Stored as Keys, Older Profiles may Still Hold Full URLs */
+export function getApplicantFileHref(fileKey: string) {
+    return fileKey.startsWith("http") ? fileKey : `${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/resume/download?key=${encodeURIComponent(fileKey)}`
+}
+
+/* Verify Magic Numbers (%PDF-), the Browser Reported Type is only based on the Extension */
+export function isPDFFile(file: File) {
+    return new Promise<boolean>((resolve) => {
+        const reader = new FileReader()
+        reader.onloadend = (e) => {
+            const arr = new Uint8Array(e.target?.result as ArrayBuffer).subarray(0, 5)
+            resolve(String.fromCharCode(...arr) === "%PDF-")
+        }
+        reader.onerror = () => resolve(false)
+        reader.readAsArrayBuffer(file.slice(0, 5))
+    })
+}
+
+/* Uploads Straight to Object Storage with a Presigned POST, Returns the Stored Key */
+export async function uploadApplicantFile(file: File, purpose: string): Promise<string> {
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/resume/upload-url?fileName=${encodeURIComponent(file.name)}&contentType=${encodeURIComponent(file.type)}&fieldId=${encodeURIComponent(purpose)}`, {
+        credentials: "include"
+    })
+
+    if (!res.ok)
+        throw new Error("Failed to get upload URL")
+
+    const { uploadUrl, fields, key } = await res.json()
+    const formData = new FormData()
+    Object.entries(fields).forEach(([k, v]) => formData.append(k, v as string))
+    formData.append("file", file)
+
+    const uploadRes = await fetch(uploadUrl, { method: "POST", body: formData })
+    if (!uploadRes.ok)
+        throw new Error("Failed to upload to S3")
+
+    return key
+}
+
+async function parseDocumentResponse(res: Response): Promise<ApplicantDocument> {
+    if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err.message || `HTTP ${res.status}`)
+    }
+
+    return res.json()
+}
+
+export async function createDocument(file: File, name: string, kind: ApplicantDocumentKind): Promise<ApplicantDocument> {
+    const fileKey = await uploadApplicantFile(file, kind)
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/documents`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name, kind, fileKey, fileName: file.name, sizeBytes: file.size })
+    })
+
+    return parseDocumentResponse(res)
+}
+
+/* Profiles from before the Library Held a Single resumeUrl Key, Brings it in as a Resume Document */
+export async function importLegacyResume(fileKey: string): Promise<ApplicantDocument> {
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/documents`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name: "Resume", kind: "resume", fileKey, fileName: fileKey.split("/").pop() || "resume.pdf" })
+    })
+
+    return parseDocumentResponse(res)
+}
+
+export async function addDocumentVersion(document: ApplicantDocument, file: File): Promise<ApplicantDocument> {
+    const fileKey = await uploadApplicantFile(file, document.kind)
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/documents/${document.documentId}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ fileKey, fileName: file.name, sizeBytes: file.size })
+    })
+
+    return parseDocumentResponse(res)
+}
+
+/* Removes the Document from the Library, Versions Pinned to Applications are Kept by the Server */
+export async function deleteDocument(documentId: string) {
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/documents/${documentId}`, {
+        method: "DELETE",
+        credentials: "include"
+    })
+
+    if (!res.ok && res.status !== 404)
+        throw new Error(`Failed to Delete Document: HTTP ${res.status}`)
+}
@@ -0,0 +1,120 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config"
+import type { DocumentAttachment } from "@/lib/documents"
+
+export interface ATSApplicationDraft {
+    teamPk: string,
+    teamName?: string,
+    selectedRoles: string[],
+    responses: { [question: string]: string },
+    /* Profile Edits the Applicant hasn't Submitted Yet */
+    profile: { [key: string]: string | undefined },
+    /* Library Versions Picked so Far, Pinned Only on Submission */
+    documents?: DocumentAttachment[],
+    updatedAt: string
+}
+
+const LOCAL_DRAFT_PREFIX = "ats-draft"
+
+function localDraftKey(email: string, teamPk: string) {
+    return `${LOCAL_DRAFT_PREFIX}:${email.toLowerCase()}:${teamPk}`
+}
+
+/* Drafts are Kept per Applicant so a Shared Computer doesn't Leak Answers between Sessions */
+export function saveLocalDraft(email: string, draft: ATSApplicationDraft) {
+    try {
+        localStorage.setItem(localDraftKey(email, draft.teamPk), JSON.stringify(draft))
+    } catch (e) {
+        /* Storage can be Full or Disabled in Private Browsing */
+        console.error("Failed to Save Local Draft", e)
+    }
+}
+
+export function loadLocalDraft(email: string, teamPk: string): ATSApplicationDraft | undefined {
+    try {
+        const stored = localStorage.getItem(localDraftKey(email, teamPk))
+        return stored ? JSON.parse(stored) : undefined
+    } catch {
+        return undefined
+    }
+}
+
+export function listLocalDrafts(email: string): ATSApplicationDraft[] {
+    const prefix = `${LOCAL_DRAFT_PREFIX}:${email.toLowerCase()}:`
+    const drafts: ATSApplicationDraft[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        if (!key?.startsWith(prefix))
+            continue
+
+        const draft = loadLocalDraft(email, key.slice(prefix.length))
+        if (draft)
+            drafts.push(draft)
+    }
+
+    return drafts
+}
+
+export function clearLocalDraft(email: string, teamPk: string) {
+    localStorage.removeItem(localDraftKey(email, teamPk))
+}
+
+/* Prefers whichever Copy was Edited Last, the Server can Lag behind after an Expired Session */
+export function newestDraft(...drafts: (ATSApplicationDraft | undefined)[]): ATSApplicationDraft | undefined {
+    return drafts
+        .filter((draft): draft is ATSApplicationDraft => draft !== undefined)
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0]
+}
+
+/* Server and Local Drafts Merged by Team, Newest Copy Wins */
+export function mergeDrafts(serverDrafts: ATSApplicationDraft[], localDrafts: ATSApplicationDraft[]): ATSApplicationDraft[] {
+    const byTeam = new Map<string, ATSApplicationDraft>()
+    for (const draft of [...serverDrafts, ...localDrafts])
+        byTeam.set(draft.teamPk, newestDraft(byTeam.get(draft.teamPk), draft)!)
+
+    return Array.from(byTeam.values())
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+}
+
+export async function saveServerDraft(draft: ATSApplicationDraft, keepalive = false): Promise<ATSApplicationDraft> {
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/drafts/${draft.teamPk}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        keepalive,
+        body: JSON.stringify(draft)
+    })
+
+    if (!res.ok)
+        throw new Error(`Failed to Save Draft: HTTP ${res.status}`)
+
+    return await res.json().catch(() => draft)
+}
+
+export async function deleteServerDraft(teamPk: string) {
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/drafts/${teamPk}`, {
+        method: "DELETE",
+        credentials: "include"
+    })
+
+    /* Nothing to Delete is Fine, the Draft may have only Lived Locally */
+    if (!res.ok && res.status != 404)
+        throw new Error(`Failed to Delete Draft: HTTP ${res.status}`)
+}
@@ -0,0 +1,158 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { jsPDF } from "jspdf"
+import { ORGANIZATION_NAME } from "@/commons/strings"
+import { loadPDFJS } from "@/lib/pdf"
+
+export interface LegalDocument {
+    id: string,
+    title: string,
+    description?: string,
+    url: string,
+    version: string
+}
+
+export interface AgreementSignature {
+    documentId: string,
+    method: "typed" | "drawn",
+    signerName: string,
+    /* PNG Data URL, only present for Drawn Signatures */
+    signatureImage?: string,
+    agreementVersion: string,
+    /* SHA-256 of the exact Document Bytes the Signer was shown */
+    agreementHash: string,
+    signedAt: string
+}
+
+export interface AgreementSigner {
+    name: string,
+    email: string,
+    teamName: string,
+    role: string
+}
+
+async function hashDocument(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", data)
+    return Array.from(new Uint8Array(digest))
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("")
+}
+
+/* Fetched Once, the Same Bytes are Rendered and Hashed so the Signature Record Matches what was Read */
+export async function fetchLegalDocument(url: string): Promise<{ data: ArrayBuffer, hash: string }> {
+    const res = await fetch(url)
+    if (!res.ok)
+        throw new Error(`Failed to Fetch Document: HTTP ${res.status}`)
+
+    const data = await res.arrayBuffer()
+    return { data, hash: await hashDocument(data) }
+}
+
+/* Every Page is Drawn from the File itself, so Signers can't Miss Pages a Fixed Height Viewer would Crop */
+export async function renderPDFPages(data: ArrayBuffer, width: number): Promise<HTMLCanvasElement[]> {
+    const pdfjs = await loadPDFJS()
+    /* pdf.js Transfers the Buffer to its Worker, Hand it a Copy so the Caller's Stays Usable */
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise
+    const ratio = window.devicePixelRatio || 1
+
+    const canvases: HTMLCanvasElement[] = []
+    try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber)
+            const viewport = page.getViewport({ scale: (width / page.getViewport({ scale: 1 }).width) * ratio })
+
+            const canvas = document.createElement("canvas")
+            canvas.width = viewport.width
+            canvas.height = viewport.height
+            canvas.style.width = "100%"
+            canvas.setAttribute("aria-label", `Page ${pageNumber} of ${pdf.numPages}`)
+
+            await page.render({ canvas, viewport }).promise
+            canvases.push(canvas)
+        }
+    } finally {
+        pdf.destroy()
+    }
+
+    return canvases
+}
+
+export function downloadSignedAgreementSummary(agreements: { document: LegalDocument, signature: AgreementSignature }[], signer: AgreementSigner) {
+    const doc = new jsPDF({ unit: "pt", format: "letter" })
+    const margin = 56
+
+    agreements.forEach(({ document, signature }, index) => {
+        if (index > 0)
+            doc.addPage()
+
+        let cursor = margin
+        doc.setFont("helvetica", "bold")
+        doc.setFontSize(18)
+        doc.setTextColor(0)
+        doc.text(`${document.title}: Signature Record`, margin, cursor)
+        cursor += 20
+
+        doc.setFont("helvetica", "normal")
+        doc.setFontSize(10)
+        doc.setTextColor(110)
+        doc.text(`${ORGANIZATION_NAME} Onboarding Portal`, margin, cursor)
+        cursor += 36
+
+        const rows: [string, string][] = [
+            ["Signer", signer.name],
+            ["Email", signer.email],
+            ["Team", `${signer.teamName} (${signer.role})`],
+            ["Agreement Version", signature.agreementVersion],
+            ["Document SHA-256", signature.agreementHash],
+            ["Signed At", new Date(signature.signedAt).toUTCString()],
+            ["Signature Method", signature.method === "typed" ? "Typed Name" : "Drawn Signature"]
+        ]
+
+        doc.setFontSize(11)
+        for (const [label, value] of rows) {
+            doc.setTextColor(110)
+            doc.text(label, margin, cursor)
+            doc.setTextColor(0)
+            const lines = doc.splitTextToSize(value, 340)
+            doc.text(lines, margin + 140, cursor)
+            cursor += 18 * lines.length
+        }
+
+        cursor += 24
+        doc.setTextColor(110)
+        doc.text("Signature", margin, cursor)
+        cursor += 12
+
+        if (signature.method === "drawn" && signature.signatureImage) {
+            doc.addImage(signature.signatureImage, "PNG", margin, cursor, 240, 80)
+            cursor += 80
+        } else {
+            doc.setFont("times", "italic")
+            doc.setFontSize(28)
+            doc.setTextColor(0)
+            doc.text(signature.signerName, margin, cursor + 32)
+            cursor += 40
+        }
+
+        doc.setDrawColor(160)
+        doc.line(margin, cursor + 4, margin + 240, cursor + 4)
+    })
+
+    doc.save(`SignedAgreements-${signer.name.replace(/\s+/g, "")}.pdf`)
+}
@@ -0,0 +1,139 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config"
+import { UMD_MAJOR_CATALOG_SNAPSHOT, UMD_MINOR_CATALOG_SNAPSHOT } from "@/commons/majors"
+
+export interface UMDApiMajorListResponse {
+    college: string,
+    major_id: string,
+    name: string,
+    url: string
+}
+
+export interface MajorCatalog {
+    majors: UMDApiMajorListResponse[],
+    minors: UMDApiMajorListResponse[],
+    /* True when Either Live List couldn't be Fetched */
+    isSnapshot: boolean
+}
+
+export interface MajorCatalogGroup {
+    college: string,
+    majors: UMDApiMajorListResponse[]
+}
+
+/* Shared across Mounts so Revisiting a Stage doesn't Refetch */
+let majorCatalogRequest: Promise<MajorCatalog> | undefined
+
+async function fetchProgramList(path: string, snapshot: UMDApiMajorListResponse[]) {
+    try {
+        const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}${path}`)
+        if (!res.ok)
+            throw new Error(res.statusText)
+
+        const programs = await res.json() as UMDApiMajorListResponse[]
+        if (!Array.isArray(programs) || programs.length == 0)
+            throw new Error("Empty Program Catalog")
+
+        return { programs, isSnapshot: false }
+    } catch (e) {
+        console.warn(`Falling back to the Bundled Catalog for ${path}`, e)
+        return { programs: snapshot, isSnapshot: true }
+    }
+}
+
+export function fetchMajorCatalog(): Promise<MajorCatalog> {
+    if (!majorCatalogRequest) {
+        majorCatalogRequest = Promise.all([
+            fetchProgramList("/api/org/majors", UMD_MAJOR_CATALOG_SNAPSHOT),
+            fetchProgramList("/api/org/minors", UMD_MINOR_CATALOG_SNAPSHOT)
+        ]).then(([majors, minors]) => {
+            /* Only Live Lists are Cached, so the Next Mount Retries a Failed Fetch */
+            if (majors.isSnapshot || minors.isSnapshot)
+                majorCatalogRequest = undefined
+
+            return { majors: majors.programs, minors: minors.programs, isSnapshot: majors.isSnapshot || minors.isSnapshot }
+        })
+    }
+
+    return majorCatalogRequest
+}
+
+function normalize(text: string) {
+    return text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ").trim()
+}
+
+/* Higher is Better, undefined when the Query doesn't Match at All */
+function scoreMatch(query: string, text: string): number | undefined {
+    const index = text.indexOf(query)
+    if (index == 0) return 100
+    if (index > 0) return 90 - Math.min(index, 40)
+
+    /* Every Query Word Prefixes some Word, ex. "comp eng" for Computer Engineering */
+    const words = text.split(" ")
+    if (query.split(" ").every((token) => words.some((word) => word.startsWith(token))))
+        return 60
+
+    /* Characters Appear in Order, Penalized by the Gaps between them */
+    let gaps = 0, cursor = -1
+    for (const char of query.replace(/ /g, "")) {
+        const next = text.indexOf(char, cursor + 1)
+        if (next < 0) return undefined
+        if (cursor >= 0) gaps += next - cursor - 1
+        cursor = next
+    }
+
+    return Math.max(1, 40 - gaps)
+}
+
+export function searchMajorCatalog(catalog: UMDApiMajorListResponse[], query: string): MajorCatalogGroup[] {
+    const normalizedQuery = normalize(query)
+    const groups = new Map<string, { score: number, majors: { major: UMDApiMajorListResponse, score: number }[] }>()
+
+    for (const major of catalog) {
+        const score = normalizedQuery ?
+            Math.max(scoreMatch(normalizedQuery, normalize(major.name)) ?? -1, (scoreMatch(normalizedQuery, normalize(major.college)) ?? -1) / 2) :
+            0
+
+        if (score < 0)
+            continue
+
+        const group = groups.get(major.college) ?? { score: -1, majors: [] }
+        group.score = Math.max(group.score, score)
+        group.majors.push({ major, score })
+        groups.set(major.college, group)
+    }
+
+    return [...groups.entries()]
+        .sort(([collegeA, a], [collegeB, b]) => (b.score - a.score) || collegeA.localeCompare(collegeB))
+        .map(([college, group]) => ({
+            college,
+            majors: group.majors
+                .sort((a, b) => (b.score - a.score) || a.major.name.localeCompare(b.major.name))
+                .map((el) => el.major)
+        }))
+}
+
+/* Longest Catalog Major Mentioned as Whole Words, so "Computer Engineering" beats "Engineering" */
+export function findMentionedMajor(catalog: UMDApiMajorListResponse[], text: string): UMDApiMajorListResponse | undefined {
+    const normalizedText = ` ${normalize(text)} `
+    return catalog
+        .filter((major) => normalize(major.name).length > 3 && normalizedText.includes(` ${normalize(major.name)} `))
+        .sort((a, b) => b.name.length - a.name.length)[0]
+}
@@ -0,0 +1,88 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config"
+
+/* Mirrors the Identity Provider's Policy, Sent with the Invite */
+export interface PasswordPolicy {
+    minLength: number,
+    /* zxcvbn Score from 0 to 4 */
+    minStrength: number,
+    requireUppercase?: boolean,
+    requireLowercase?: boolean,
+    requireDigit?: boolean,
+    requireSymbol?: boolean,
+    bannedWords?: string[],
+    checkBreaches?: boolean
+}
+
+export interface PasswordRequirement {
+    name: string,
+    status: boolean,
+    pending?: boolean
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+    minLength: 12,
+    minStrength: 2
+}
+
+/* Rules that can be Checked Synchronously, Strength and Breaches are Handled by the Caller */
+export function getPasswordPolicyRequirements(password: string, policy: PasswordPolicy): PasswordRequirement[] {
+    const requirements = [{ name: `Minimum ${policy.minLength} characters`, status: password.length >= policy.minLength }]
+
+    if (policy.requireUppercase)
+        requirements.push({ name: "At least one uppercase letter", status: /[A-Z]/.test(password) })
+
+    if (policy.requireLowercase)
+        requirements.push({ name: "At least one lowercase letter", status: /[a-z]/.test(password) })
+
+    if (policy.requireDigit)
+        requirements.push({ name: "At least one number", status: /[0-9]/.test(password) })
+
+    if (policy.requireSymbol)
+        requirements.push({ name: "At least one symbol", status: /[^A-Za-z0-9]/.test(password) })
+
+    if (policy.bannedWords && policy.bannedWords.length > 0) {
+        const lowerPassword = password.toLowerCase()
+        requirements.push({
+            name: "Doesn't contain a banned word",
+            status: password.length > 0 && !policy.bannedWords.some((word) => lowerPassword.includes(word.toLowerCase()))
+        })
+    }
+
+    return requirements
+}
+
+export async function isPasswordBreached(password: string, signal?: AbortSignal): Promise<boolean> {
+    /* k-Anonymity, only the First 5 Characters of the SHA-1 Hash leave the Browser */
+    const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(password))
+    const hash = Array.from(new Uint8Array(digest))
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("")
+        .toUpperCase()
+
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/passwords/breaches/${hash.slice(0, 5)}`, { signal })
+    if (!res.ok)
+        throw new Error(`Breach Check Failed: HTTP ${res.status}`)
+
+    const suffix = hash.slice(5)
+    return (await res.text())
+        .split("\n")
+        .some((line) => line.split(":")[0].trim().toUpperCase() === suffix)
+}
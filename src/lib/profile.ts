@@ -0,0 +1,199 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config"
+
+export type ProfileFieldKind = "text" | "url" | "file" | "select" | "multiselect" | "longtext" | "date" | "number"
+
+export interface ProfileFieldValidation {
+    required?: boolean,
+    /* Long Text Only */
+    maxWords?: number,
+    /* Number Fields compare Values, Date Fields compare ISO Dates */
+    min?: number | string,
+    max?: number | string,
+    /* URL Fields, e.g. ["linkedin.com"] also Accepts Subdomains */
+    allowedHosts?: string[],
+    /* File Fields, an Input accept String and a Size Limit */
+    accept?: string,
+    maxSizeMB?: number
+}
+
+export interface ProfileField {
+    id: string,
+    label: string,
+    kind: ProfileFieldKind,
+    placeholder?: string,
+    helpText?: string,
+    /* Select and Multiselect Only */
+    options?: string[],
+    validation?: ProfileFieldValidation
+}
+
+export const PROFILE_FIELD_KINDS: { kind: ProfileFieldKind, label: string }[] = [
+    { kind: "text", label: "Short Text" },
+    { kind: "longtext", label: "Long Text" },
+    { kind: "url", label: "URL" },
+    { kind: "file", label: "File Upload" },
+    { kind: "select", label: "Single Choice" },
+    { kind: "multiselect", label: "Multiple Choice" },
+    { kind: "date", label: "Date" },
+    { kind: "number", label: "Number" }
+]
+
+/* Used only when the Server has no Schema Yet, Admins replace it from the Dashboard */
+export const DEFAULT_PROFILE_SCHEMA: ProfileField[] = [
+    { id: "linkedinUrl", label: "LinkedIn URL", kind: "url", placeholder: "https://linkedin.com/in/username", validation: { allowedHosts: ["linkedin.com"] } },
+    { id: "githubUrl", label: "GitHub URL", kind: "url", placeholder: "https://github.com/username", validation: { allowedHosts: ["github.com"] } },
+    {
+        id: "whyAppDev",
+        label: "Explain what you'd like to get out of App Dev Club",
+        kind: "longtext",
+        helpText: "Tell us what motivates you to join.",
+        validation: { required: true, maxWords: 200 }
+    },
+    { id: "additionalInfo", label: "Is there anything else you'd like to mention?", kind: "longtext" }
+]
+
+/* Multiselect Answers share the String Profile Map, so Choices are Newline Separated */
+const MULTISELECT_SEPARATOR = "\n"
+
+export function splitMultiselect(value?: string): string[] {
+    return value ? value.split(MULTISELECT_SEPARATOR).filter(Boolean) : []
+}
+
+export function joinMultiselect(values: string[]): string {
+    return values.join(MULTISELECT_SEPARATOR)
+}
+
+export function countWords(value?: string): number {
+    return value ? value.trim().split(/\s+/).filter(Boolean).length : 0
+}
+
+/* Answers End up as Links, so Schemes like javascript: are Never Accepted */
+export function isHttpUrl(value: string) {
+    try {
+        return ["http:", "https:"].includes(new URL(value).protocol)
+    } catch {
+        return false
+    }
+}
+
+/* Returns a Message for the First Failing Rule, or null when the Value is Acceptable */
+export function validateProfileValue(field: ProfileField, value?: string): string | null {
+    const rules = field.validation ?? {}
+    const trimmed = value?.trim() ?? ""
+
+    if (!trimmed)
+        return rules.required ? `Please provide your ${field.label.toLowerCase()}.` : null
+
+    switch (field.kind) {
+        case "url": {
+            let url: URL
+            try {
+                url = new URL(trimmed)
+            } catch {
+                return `${field.label} must be a valid URL.`
+            }
+
+            if (!isHttpUrl(trimmed))
+                return `${field.label} must start with http:// or https://.`
+
+            if (rules.allowedHosts?.length) {
+                const host = url.hostname.replace(/^www\./, "")
+                if (!rules.allowedHosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`)))
+                    return `${field.label} must be a link to ${rules.allowedHosts.join(" or ")}.`
+            }
+            break
+        }
+
+        case "longtext":
+            if (rules.maxWords && countWords(trimmed) > rules.maxWords)
+                return `${field.label} must be ${rules.maxWords} words or less.`
+            break
+
+        case "number": {
+            const number = Number(trimmed)
+            if (Number.isNaN(number))
+                return `${field.label} must be a number.`
+            if (rules.min !== undefined && rules.min !== "" && number < Number(rules.min))
+                return `${field.label} must be at least ${rules.min}.`
+            if (rules.max !== undefined && rules.max !== "" && number > Number(rules.max))
+                return `${field.label} must be at most ${rules.max}.`
+            break
+        }
+
+        case "date":
+            /* Date Inputs produce YYYY-MM-DD, which Compares Correctly as a String */
+            if (Number.isNaN(Date.parse(trimmed)))
+                return `${field.label} must be a valid date.`
+            if (rules.min && trimmed < String(rules.min))
+                return `${field.label} must be on or after ${rules.min}.`
+            if (rules.max && trimmed > String(rules.max))
+                return `${field.label} must be on or before ${rules.max}.`
+            break
+
+        case "select":
+            if (field.options && !field.options.includes(trimmed))
+                return `Please choose one of the options for ${field.label}.`
+            break
+
+        case "multiselect":
+            if (field.options && splitMultiselect(trimmed).some(choice => !field.options!.includes(choice)))
+                return `Please choose from the options for ${field.label}.`
+            break
+    }
+
+    return null
+}
+
+export interface ProfileSchema {
+    fields: ProfileField[],
+    /* Ids of Removed Fields, their Answers are Kept so they can't be Reused */
+    retiredIds: string[]
+}
+
+export async function fetchProfileSchema(): Promise<ProfileSchema> {
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/profile/schema`, { credentials: "include" })
+
+    /* Never Saved Falls back to the Defaults, a Saved Empty Schema is Respected */
+    if (res.status === 404)
+        return { fields: DEFAULT_PROFILE_SCHEMA, retiredIds: [] }
+
+    if (!res.ok)
+        throw new Error(`Failed to Fetch Profile Schema: HTTP ${res.status}`)
+
+    const { fields, retiredIds } = await res.json()
+    return { fields: fields ?? DEFAULT_PROFILE_SCHEMA, retiredIds: retiredIds ?? [] }
+}
+
+export async function saveProfileSchema(fields: ProfileField[]): Promise<ProfileSchema> {
+    const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/profile/schema`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fields })
+    })
+
+    if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err.message || `HTTP ${res.status}`)
+    }
+
+    const { fields: savedFields, retiredIds } = await res.json()
+    return { fields: savedFields ?? fields, retiredIds: retiredIds ?? [] }
+}
@@ -0,0 +1,74 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import type { ProfileField } from "@/lib/profile"
+
+export type RoleQuestionKind = "text" | "longtext" | "select" | "multiselect" | "url" | "file"
+
+/* Answers are Keyed by the Prompt, so Rewording a Question Starts it Fresh */
+export interface RoleQuestion {
+    prompt: string,
+    kind: RoleQuestionKind,
+    required: boolean,
+    helpText?: string,
+    /* Select and Multiselect Only */
+    options?: string[],
+    /* Long Text Only */
+    maxWords?: number
+}
+
+export const ROLE_QUESTION_KINDS: { kind: RoleQuestionKind, label: string }[] = [
+    { kind: "text", label: "Short Text" },
+    { kind: "longtext", label: "Long Text" },
+    { kind: "select", label: "Single Choice" },
+    { kind: "multiselect", label: "Multiple Choice" },
+    { kind: "url", label: "URL" },
+    { kind: "file", label: "File Upload (PDF)" }
+]
+
+/* Configs Saved before Typed Questions are Plain Strings, which were always Required Long Text */
+export function normalizeRoleQuestion(question: string | RoleQuestion): RoleQuestion {
+    return typeof question === "string" ? { prompt: question, kind: "longtext", required: true } : question
+}
+
+export function findRoleQuestionError(question: RoleQuestion): string | null {
+    if (!question.prompt.trim())
+        return "Every question needs a prompt."
+
+    if ((question.kind === "select" || question.kind === "multiselect") && !question.options?.length)
+        return `"${question.prompt}" needs at least one option.`
+
+    return null
+}
+
+/* Role Questions Render and Validate exactly like Profile Fields */
+export function toProfileField(question: RoleQuestion, id: string): ProfileField {
+    return {
+        id,
+        label: question.prompt,
+        kind: question.kind,
+        helpText: question.helpText,
+        options: question.options,
+        placeholder: question.kind === "longtext" ? "Enter your response..." : undefined,
+        validation: {
+            required: question.required,
+            maxWords: question.maxWords,
+            ...(question.kind === "file" ? { accept: ".pdf", maxSizeMB: 10 } : {})
+        }
+    }
+}
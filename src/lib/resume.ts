@@ -0,0 +1,167 @@
+/**
+  People Portal UI
+  Copyright (C) 2026  Atheesh Thirumalairajan
+
+  This program is free software: you can redistribute it and/or modify
+  it under the terms of the GNU General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  This program is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU General Public License for more details.
+
+  You should have received a copy of the GNU General Public License
+  along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { findMentionedMajor, type UMDApiMajorListResponse } from "@/lib/majors"
+import type { ProfileField } from "@/lib/profile"
+import { loadPDFJS } from "@/lib/pdf"
+
+export interface ResumeDetails {
+    urls: string[],
+    emails: string[],
+    graduationYear?: number,
+    major?: string
+}
+
+export interface ProfileSuggestion {
+    fieldId: string,
+    label: string,
+    value: string,
+    /* What was Found in the Resume, Shown so the Applicant can Judge the Match */
+    reason: string
+}
+
+export async function extractPDFText(file: File): Promise<{ text: string, links: string[] }> {
+    const pdfjs = await loadPDFJS()
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise
+
+    const pages: string[] = []
+    const links: string[] = []
+    try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber)
+            const content = await page.getTextContent()
+            pages.push(content.items.map((item) => "str" in item ? item.str + (item.hasEOL ? "\n" : " ") : "").join(""))
+
+            /* Resumes often Hide URLs behind Link Text like "LinkedIn" */
+            const annotations = await page.getAnnotations()
+            links.push(...annotations.map((annotation) => annotation.url).filter((url): url is string => typeof url === "string"))
+        }
+    } finally {
+        pdf.destroy()
+    }
+
+    return { text: pages.join("\n"), links }
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|org|net|io|dev|me|app|edu|co|ai|xyz)(?:\/[^\s,;)]*)?/gi
+const EMAIL_PATTERN = /\b[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}\b/gi
+const GRADUATION_PATTERN = /(?:expected|anticipated|graduat\w*|class of|grad\.?)[^\n\d]{0,30}((?:19|20)\d{2})/i
+const YEAR_RANGE_PATTERN = /\b(?:19|20)\d{2}\s*[-–—]\s*((?:19|20)\d{2})\b/g
+
+function normalizeUrl(url: string) {
+    const withScheme = /^https?:\/\//i.test(url) ? url : `https://${url}`
+    return withScheme.replace(/[.)\]]+$/, "")
+}
+
+export function detectResumeDetails(text: string, links: string[], majors: UMDApiMajorListResponse[] = []): ResumeDetails {
+    const emails = [...new Set([
+        ...(text.match(EMAIL_PATTERN) ?? []),
+        ...links.filter((link) => link.startsWith("mailto:")).map((link) => link.slice("mailto:".length))
+    ].map((email) => email.toLowerCase()))]
+
+    /* Email Domains also Match the URL Pattern, so Strip Emails before Looking for Links */
+    const textWithoutEmails = text.replace(EMAIL_PATTERN, " ")
+    const urls = [...new Set([
+        ...links.filter((link) => /^https?:/i.test(link)),
+        ...(textWithoutEmails.match(URL_PATTERN) ?? [])
+    ].map(normalizeUrl))]
+
+    /* Explicit Graduation Wording wins, otherwise the Latest End of any Year Range, Degrees Outlast Internships */
+    const graduationMatch = text.match(GRADUATION_PATTERN)
+    const rangeEndYears = [...text.matchAll(YEAR_RANGE_PATTERN)].map((match) => Number(match[1]))
+    const graduationYear = graduationMatch ? Number(graduationMatch[1]) : rangeEndYears.length ? Math.max(...rangeEndYears) : undefined
+
+    return {
+        urls,
+        emails,
+        graduationYear,
+        major: findMentionedMajor(majors, text)?.name
+    }
+}
+
+function urlHost(url: string) {
+    try {
+        return new URL(url).hostname.replace(/^www\./, "")
+    } catch {
+        return ""
+    }
+}
+
+function matchesHost(url: string, hosts: string[]) {
+    const host = urlHost(url)
+    return hosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`))
+}
+
+function describeField(field: ProfileField) {
+    return `${field.id} ${field.label}`.toLowerCase()
+}
+
+/* Maps Detected Details onto Schema Fields, Skipping Fields that already hold the Same Value */
+export function buildProfileSuggestions(details: ResumeDetails, schema: ProfileField[], profile: { [key: string]: string | undefined }): ProfileSuggestion[] {
+    const suggestions: ProfileSuggestion[] = []
+    const suggest = (field: ProfileField, value: string, reason: string) => {
+        if (profile[field.id]?.trim() !== value && !suggestions.some((el) => el.fieldId === field.id))
+            suggestions.push({ fieldId: field.id, label: field.label, value, reason })
+    }
+
+    /* Host Restricted URL Fields first, so a Generic Website Field doesn't take the LinkedIn Link */
+    const urlFields = schema.filter((field) => field.kind === "url")
+        .sort((a, b) => (b.validation?.allowedHosts?.length ?? 0) - (a.validation?.allowedHosts?.length ?? 0))
+    const claimedUrls = new Set<string>()
+    const restrictedHosts = urlFields.flatMap((field) => field.validation?.allowedHosts ?? [])
+
+    for (const field of urlFields) {
+        const hosts = field.validation?.allowedHosts ?? []
+        const url = hosts.length ?
+            details.urls.find((candidate) => matchesHost(candidate, hosts)) :
+            /* Unrestricted Fields get the First Link that isn't a School Page or claimed by another Field */
+            details.urls.find((candidate) => !claimedUrls.has(candidate) && !matchesHost(candidate, restrictedHosts) && !/\.edu$/.test(urlHost(candidate)))
+
+        if (url) {
+            claimedUrls.add(url)
+            suggest(field, url, "Link found in your resume")
+        }
+    }
+
+    for (const field of schema) {
+        const description = describeField(field)
+
+        if (details.emails.length && /e-?mail/.test(description) && (field.kind === "text" || field.kind === "url"))
+            suggest(field, details.emails[0], "Email address found in your resume")
+
+        if (details.graduationYear && /grad/.test(description)) {
+            if (field.kind === "number" || field.kind === "text")
+                suggest(field, String(details.graduationYear), "Graduation year found in your resume")
+            else if (field.kind === "select") {
+                const option = field.options?.find((el) => el.includes(String(details.graduationYear)))
+                if (option) suggest(field, option, "Graduation year found in your resume")
+            }
+        }
+
+        if (details.major && /major|degree|field of study/.test(description)) {
+            if (field.kind === "text")
+                suggest(field, details.major, "Major found in your resume")
+            else if (field.kind === "select" || field.kind === "multiselect") {
+                const option = field.options?.find((el) => el.toLowerCase() === details.major!.toLowerCase())
+                if (option) suggest(field, option, "Major found in your resume")
+            }
+        }
+    }
+
+    return suggestions
+}
@@ -16,7 +16,7 @@
   along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom'
+import { Route, Routes, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragOverlay } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
@@ -25,26 +25,42 @@ import React from 'react'
 import { PEOPLEPORTAL_SERVER_ENDPOINT } from '@/commons/config'
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion'
 import {
+    AlarmClockIcon,
+    ArrowUpDownIcon,
+    BellIcon,
+    CalendarIcon,
     CheckCircle2,
+    CheckIcon,
     ChevronLeftIcon,
     CircleXIcon,
+    CloudIcon,
+    CloudOffIcon,
     ExternalLinkIcon,
     FileIcon,
-    GithubIcon,
+    LinkIcon,
+    ListChecksIcon,
+    FilePenLineIcon,
+    FilesIcon,
+    HourglassIcon,
     InfoIcon,
-    LinkedinIcon,
     Loader2Icon,
     LogOutIcon,
     MailIcon,
     NotepadText,
+    PartyPopperIcon,
+    PencilIcon,
     PlusIcon,
+    SearchIcon,
     SendIcon,
     SparklesIcon,
     TargetIcon,
+    Trash2Icon,
+    UndoIcon,
     UploadCloud,
     UserIcon,
     Users2Icon,
-    UsersRound
+    UsersRound,
+    XIcon
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -57,7 +73,7 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select"
-import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp'
 import { toast } from 'sonner'
 import { Textarea } from '@/components/ui/textarea'
@@ -69,6 +85,18 @@ import {
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { formatDistanceToNow } from 'date-fns'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Timeline, TimelineItem } from '@/components/ui/timeline'
+import { fetchMajorCatalog } from '@/lib/majors'
+import { buildProfileSuggestions, detectResumeDetails, extractPDFText, type ProfileSuggestion } from '@/lib/resume'
+import { formatCountdown, getRecruitmentWindowState, isAcceptingApplications, soonestClosingAt, type RecruitmentWindow } from '@/lib/deadlines'
+import { useNow } from '@/hooks/use-now'
+import { countWords, DEFAULT_PROFILE_SCHEMA, fetchProfileSchema, isHttpUrl, joinMultiselect, splitMultiselect, validateProfileValue, type ProfileField } from '@/lib/profile'
+import { addDocumentVersion, createDocument, deleteDocument, DOCUMENT_KIND_LABELS, getApplicantFileHref, importLegacyResume, isPDFFile, latestVersion, MAX_DOCUMENT_SIZE_MB, uploadApplicantFile, type ApplicantDocument, type ApplicantDocumentKind, type DocumentAttachment, type PinnedDocument } from '@/lib/documents'
+import { normalizeRoleQuestion, toProfileField, type RoleQuestion, type RoleQuestionKind } from '@/lib/questions'
+import { clearLocalDraft, deleteServerDraft, listLocalDrafts, loadLocalDraft, mergeDrafts, newestDraft, saveLocalDraft, saveServerDraft, type ATSApplicationDraft } from '@/lib/drafts'
 
 // Type for subteam preference (internal mapping)
 
@@ -88,7 +116,9 @@ interface ATSTeamData {
         friendlyName: string;
         description: string;
         roles: string[];
-        roleSpecificQuestions: { [key: string]: string[] };
+        roleSpecificQuestions: { [key: string]: (string | RoleQuestion)[] };
+        opensAt?: string | null;
+        closesAt?: string | null;
     }>;
 }
 
@@ -98,8 +128,10 @@ interface OpenATSTeamInfo {
     description: string,
     seasonText: string,
     pk: string,
-    recruitmentInfo?: {
+    recruitmentInfo?: RecruitmentWindow & {
         roles: string[]
+        // When the subteam last started recruiting
+        openedAt?: string
     }
 }
 
@@ -115,40 +147,6 @@ interface ApplicantProfile {
     [key: string]: string | undefined
 }
 
-interface PersonalInfoField {
-    id: string
-    label: string;
-    placeholder?: string;
-    type?: string
-    options?: string[]
-    required?: boolean
-    multiline?: boolean
-}
-
-const PERSONAL_INFO_FIELDS: PersonalInfoField[] = [
-    { id: "linkedinUrl", label: "LinkedIn URL", placeholder: "https://linkedin.com/in/username" },
-    { id: "githubUrl", label: "GitHub URL", placeholder: "https://github.com/username" },
-    { id: "resumeUrl", label: "Resume (Upload PDF Only)", type: "file", required: true },
-    {
-        id: "instagramFollow",
-        label: "Do you follow App Dev (@appdev_umd) on Instagram?",
-        type: "select",
-        options: [
-            "Yes 🥳",
-            "No, I don't want to because I am lame ☹️",
-            "I don't have Instagram"
-        ],
-        required: true
-    },
-    {
-        id: "whyAppDev",
-        label: "Explain what you'd like to get out of App Dev Club",
-        required: true,
-        multiline: true
-    },
-    { id: "additionalInfo", label: "Is there anything else you'd like to mention?", multiline: true }
-]
-
 // Updated application interface - team-level
 interface ApplicationRolePreference {
     role: string;
@@ -166,6 +164,17 @@ interface ATSApplication {
     responses: { [key: string]: string };
     hiredSubteamPk?: string;
     hiredRole?: string;
+    // Applicant-safe history, recruiter names and notes are stripped by the server
+    stageHistory?: { stage: string; changedAt: string; action?: 'stage_change' | 'edited' | 'withdrawn' }[];
+    // Snapshot of the document versions attached at submission
+    documents?: PinnedDocument[];
+    // Set by the recruiter when moving the application to Interview
+    interview?: { interviewLink: string; interviewGuidelines?: string; invitedAt?: string };
+}
+
+interface NotificationPreferences {
+    email: boolean;
+    inApp: boolean;
 }
 
 interface OTPSessionResponse {
@@ -173,8 +182,85 @@ interface OTPSessionResponse {
     email: string;
     profile: ApplicantProfile;
     applications: ATSApplication[];
+    drafts?: ATSApplicationDraft[];
+    documents?: ApplicantDocument[];
+    notificationPreferences?: NotificationPreferences;
+}
+
+type DraftSaveStatus = "idle" | "saving" | "saved" | "local"
+
+const DRAFT_AUTOSAVE_DELAY_MS = 1500
+
+// Applicants can edit until a recruiter acts, and withdraw until a decision is made
+const EDITABLE_APPLICATION_STAGE = "Applied"
+const TERMINAL_APPLICATION_STAGES = ["Hired", "Rejected", "Rejected After Interview", "Withdrawn"]
+
+// Internal stages are never shown as-is, Potential Hire in particular would set expectations
+const PUBLIC_APPLICATION_STATUS: { [stage: string]: { label: string, description: string, icon: React.ReactNode, color: string } } = {
+    'Applied': { label: "Submitted", description: "Your application is waiting to be reviewed.", icon: <SendIcon />, color: "primary" },
+    'Interview': { label: "Interview", description: "The team would like to meet you!", icon: <CalendarIcon />, color: "primary" },
+    'Potential Hire': { label: "Final Review", description: "The team is making its final decisions.", icon: <HourglassIcon />, color: "primary" },
+    'Hired': { label: "Accepted", description: "Congratulations, welcome to the team!", icon: <PartyPopperIcon />, color: "primary" },
+    'Rejected': { label: "Decision Made", description: "Thank you for applying, the team won't be moving forward this cycle.", icon: <MailIcon />, color: "muted" },
+    'Rejected After Interview': { label: "Decision Made", description: "Thank you for interviewing, the team won't be moving forward this cycle.", icon: <MailIcon />, color: "muted" },
+    'Withdrawn': { label: "Withdrawn", description: "You withdrew this application.", icon: <UndoIcon />, color: "muted" }
 }
 
+const UNKNOWN_APPLICATION_STATUS = { label: "In Review", description: "Your application is being reviewed.", icon: <HourglassIcon />, color: "primary" }
+
+const PROFILE_FIELD_ICONS: { [kind: string]: React.ReactNode } = {
+    url: <LinkIcon className="h-3 w-3 text-primary/60" />,
+    file: <FileIcon className="h-3 w-3 text-primary/60" />,
+    date: <CalendarIcon className="h-3 w-3 text-primary/60" />,
+    multiselect: <ListChecksIcon className="h-3 w-3 text-primary/60" />
+}
+
+// Discovery filters live in the /apply query string so a filtered view can be shared
+type OpenRolesSort = "default" | "roles" | "recent"
+type OpenRolesStatus = "all" | "recruiting" | "closed"
+
+const OPEN_ROLES_SORT_LABELS: { [sort in OpenRolesSort]: string } = {
+    default: "Featured",
+    roles: "Most Roles",
+    recent: "Recently Opened"
+}
+
+// Subteams outside their open/close window stay listed by the server but can't take applications
+const getAcceptingSubteamPks = (team: OpenATSTeam, now: number) =>
+    team.recruitingSubteamPks.filter(pk => isAcceptingApplications(team.subteamInfo[pk]?.recruitmentInfo ?? {}, now))
+
+const getTeamRoles = (team: OpenATSTeam, now: number) =>
+    getAcceptingSubteamPks(team, now).flatMap(pk => team.subteamInfo[pk]?.recruitmentInfo?.roles || [])
+
+const getTeamOpenedAt = (team: OpenATSTeam) =>
+    team.recruitingSubteamPks.reduce((latest, pk) => {
+        const openedAt = team.subteamInfo[pk]?.recruitmentInfo?.openedAt ?? ""
+        return openedAt > latest ? openedAt : latest
+    }, "")
+
+const getRoleQuestions = (subteam: ATSTeamData["recruitingSubteams"][number] | undefined, role: string) =>
+    (subteam?.roleSpecificQuestions[role] || []).map(normalizeRoleQuestion)
+
+const getRoleQuestionId = (role: string, idx: number) => `role-${role.replace(/\W+/g, "-")}-${idx}`
+
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = { email: true, inApp: true }
+
+const getSeenStagesKey = (email: string) => `ats-seen-stages:${email.toLowerCase()}`
+
+const readSeenStages = (email: string): { [applicationId: string]: string } => {
+    try {
+        return JSON.parse(localStorage.getItem(getSeenStagesKey(email)) || "{}")
+    } catch {
+        // Corrupt entries are simply reset
+        return {}
+    }
+}
+
+const writeSeenStages = (email: string, seenStages: { [applicationId: string]: string }) =>
+    localStorage.setItem(getSeenStagesKey(email), JSON.stringify(seenStages))
+
+const getPublicStatus = (stage: string) => PUBLIC_APPLICATION_STATUS[stage] ?? UNKNOWN_APPLICATION_STATUS
+
 export const ATSDashboard = () => {
     const location = useLocation()
     const navigate = useNavigate()
@@ -182,12 +268,23 @@ export const ATSDashboard = () => {
     const [email, setEmail] = React.useState("")
     const [profile, setProfile] = React.useState<ApplicantProfile>({})
     const [applications, setApplications] = React.useState<ATSApplication[]>([])
+    const [drafts, setDrafts] = React.useState<ATSApplicationDraft[]>([])
+    const [documents, setDocuments] = React.useState<ApplicantDocument[]>([])
+    const [notificationPreferences, setNotificationPreferences] = React.useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+    const [profileSchema, setProfileSchema] = React.useState<ProfileField[]>(DEFAULT_PROFILE_SCHEMA)
     const [triggerLogin, setTriggerLogin] = React.useState(false)
+    const legacyResumeImportRef = React.useRef<string>(undefined)
 
     React.useEffect(() => {
         window.scrollTo(0, 0)
     }, [location.pathname])
 
+    React.useEffect(() => {
+        fetchProfileSchema()
+            .then((schema) => setProfileSchema(schema.fields))
+            .catch((e) => console.error("Falling back to the default profile schema", e))
+    }, [])
+
     React.useEffect(() => {
         fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/auth/verifyotpsession`, {
             method: "GET",
@@ -200,12 +297,42 @@ export const ATSDashboard = () => {
                     setEmail(data.email)
                     setProfile(data.profile || {})
                     setApplications(data.applications || [])
+                    setDrafts(data.drafts || [])
+                    setDocuments(data.documents || [])
+                    setNotificationPreferences(data.notificationPreferences ?? DEFAULT_NOTIFICATION_PREFERENCES)
                 }
             })
             .catch(() => {
             })
     }, [location.key])
 
+    // Resumes uploaded before the document library only live on the profile, move them in once
+    React.useEffect(() => {
+        const legacyResume = profile.resumeUrl
+        if (!email || !legacyResume || legacyResumeImportRef.current === legacyResume) return
+        if (documents.some(doc => doc.versions.some(version => version.fileKey === legacyResume))) return
+        legacyResumeImportRef.current = legacyResume
+
+        importLegacyResume(legacyResume)
+            .then((document) => {
+                setDocuments(prev => [...prev, document])
+                setProfile(prev => ({ ...prev, resumeUrl: undefined }))
+
+                // Cleared so deleting the imported document doesn't bring it back
+                fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/profile`, {
+                    method: "POST",
+                    headers: { 'Content-Type': 'application/json' },
+                    credentials: 'include',
+                    body: JSON.stringify({ resumeUrl: null })
+                }).catch(e => console.error("Failed to clear the legacy resume", e))
+            })
+            .catch((e) => {
+                console.error(e)
+                legacyResumeImportRef.current = undefined
+                toast.error("We couldn't move your saved resume into your documents", { description: "Please upload it again before applying." })
+            })
+    }, [email, profile.resumeUrl, documents])
+
     const handleLogout = async () => {
         try {
             const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/auth/logout`, {
@@ -217,6 +344,8 @@ export const ATSDashboard = () => {
                 setEmail("")
                 setProfile({})
                 setApplications([])
+                setDrafts([])
+                setDocuments([])
                 toast.success("Logged out successfully")
                 navigate("/apply")
             }
@@ -230,6 +359,9 @@ export const ATSDashboard = () => {
         setEmail(data.email)
         setProfile(data.profile || {})
         setApplications(data.applications || [])
+        setDrafts(data.drafts || [])
+        setDocuments(data.documents || [])
+        setNotificationPreferences(data.notificationPreferences ?? DEFAULT_NOTIFICATION_PREFERENCES)
 
         // If we are on an apply page and the user has already applied, redirect to view
         if (location.pathname.startsWith('/apply/') && !location.pathname.endsWith('/applications')) {
@@ -243,6 +375,61 @@ export const ATSDashboard = () => {
         }
     }
 
+    const handleDraftSaved = (draft: ATSApplicationDraft) => {
+        setDrafts((existing) => [...existing.filter((el) => el.teamPk !== draft.teamPk), draft])
+    }
+
+    const handleDraftRemoved = (teamPk: string) => {
+        setDrafts((existing) => existing.filter((el) => el.teamPk !== teamPk))
+    }
+
+    // In-app alerts compare against the last stage this browser showed the applicant
+    React.useEffect(() => {
+        if (!email || applications.length === 0) return
+
+        const seenStages = readSeenStages(email)
+        if (notificationPreferences.inApp) {
+            applications
+                .filter(app => seenStages[app._id] && seenStages[app._id] !== app.stage)
+                .forEach(app => {
+                    const status = getPublicStatus(app.stage)
+                    toast.info(`${app.teamName || "Application"}: ${status.label}`, { description: status.description })
+                })
+        }
+
+        writeSeenStages(email, Object.fromEntries(applications.map(app => [app._id, app.stage])))
+    }, [applications, email, notificationPreferences.inApp])
+
+    const handleNotificationPreferencesChange = (preferences: NotificationPreferences) => {
+        const previous = notificationPreferences
+        setNotificationPreferences(preferences)
+
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/notifications`, {
+            method: "PUT",
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify(preferences)
+        })
+            .then(async (res) => {
+                if (!res.ok) {
+                    const err = await res.json().catch(() => ({}))
+                    throw new Error(err.message || `HTTP ${res.status}`)
+                }
+            })
+            .catch((e) => {
+                setNotificationPreferences(previous)
+                toast.error("Failed to update notification preferences", { description: e.message })
+            })
+    }
+
+    const handleApplicationUpdated = (application: ATSApplication) => {
+        // The applicant made this change themselves, so it isn't news to alert them about
+        if (email)
+            writeSeenStages(email, { ...readSeenStages(email), [application._id]: application.stage })
+
+        setApplications((existing) => existing.map((el) => el._id === application._id ? application : el))
+    }
+
     return (
         <div className="flex flex-col w-full h-full">
             { /* Polished Header */}
@@ -312,21 +499,101 @@ export const ATSDashboard = () => {
             <div className='flex flex-col w-full px-4 pb-4 pt-20 gap-3'>
                 <Routes>
                     <Route path="/" element={<ATSApplyList applications={applications} />} />
-                    <Route path='/applications' element={<ATSApplicationsList applications={applications} profile={profile} fullName={fullName} email={email} />} />
-                    <Route path='/:teamId' element={<ATSApplyPage applications={applications} profile={profile} onProfileUpdate={setProfile} fullName={fullName} onRequestLogin={() => setTriggerLogin(true)} />} />
+                    <Route path='/applications' element={<ATSApplicationsList applications={applications} onApplicationUpdated={handleApplicationUpdated} notificationPreferences={notificationPreferences} onNotificationPreferencesChange={handleNotificationPreferencesChange} drafts={drafts} profileSchema={profileSchema} onDraftRemoved={handleDraftRemoved} profile={profile} fullName={fullName} email={email} />} />
+                    <Route path='/:teamId/edit' element={<ATSApplyPage editing applications={applications} drafts={drafts} onDraftSaved={handleDraftSaved} onDraftRemoved={handleDraftRemoved} documents={documents} onDocumentsUpdate={setDocuments} profileSchema={profileSchema} profile={profile} onProfileUpdate={setProfile} fullName={fullName} email={email} onRequestLogin={() => setTriggerLogin(true)} />} />
+                    <Route path='/:teamId' element={<ATSApplyPage applications={applications} drafts={drafts} onDraftSaved={handleDraftSaved} onDraftRemoved={handleDraftRemoved} documents={documents} onDocumentsUpdate={setDocuments} profileSchema={profileSchema} profile={profile} onProfileUpdate={setProfile} fullName={fullName} email={email} onRequestLogin={() => setTriggerLogin(true)} />} />
                 </Routes>
             </div>
         </div>
     )
 }
 
-export const ATSApplicationsList = ({ applications, profile, fullName, email }: { applications: ATSApplication[], profile: ApplicantProfile, fullName: string, email: string }) => {
+export const ATSApplicationsList = ({ applications, onApplicationUpdated, notificationPreferences, onNotificationPreferencesChange, drafts, onDraftRemoved, profileSchema, profile, fullName, email }: { applications: ATSApplication[], onApplicationUpdated: (application: ATSApplication) => void, notificationPreferences: NotificationPreferences, onNotificationPreferencesChange: (preferences: NotificationPreferences) => void, drafts: ATSApplicationDraft[], onDraftRemoved: (teamPk: string) => void, profileSchema: ProfileField[], profile: ApplicantProfile, fullName: string, email: string }) => {
     const navigate = useNavigate()
+    const [discardingTeamPk, setDiscardingTeamPk] = React.useState<string>()
+    const [withdrawingApplication, setWithdrawingApplication] = React.useState<ATSApplication>()
+    const [withdrawReason, setWithdrawReason] = React.useState("")
+    const [isWithdrawing, setIsWithdrawing] = React.useState(false)
+
+    // Local drafts cover sessions that expired before the server copy caught up
+    const visibleDrafts = React.useMemo(() => {
+        if (!email) return []
+        return mergeDrafts(drafts, listLocalDrafts(email))
+            .filter(draft => !applications.some(app => app.teamPk === draft.teamPk))
+    }, [drafts, email, applications])
+
+    const handleDiscardDraft = (draft: ATSApplicationDraft) => {
+        setDiscardingTeamPk(draft.teamPk)
+        deleteServerDraft(draft.teamPk)
+            .then(() => {
+                clearLocalDraft(email, draft.teamPk)
+                onDraftRemoved(draft.teamPk)
+                toast.success(`Discarded your ${draft.teamName ?? "application"} draft`)
+            })
+            .catch((e) => toast.error("Failed to discard draft", { description: e.message }))
+            .finally(() => setDiscardingTeamPk(undefined))
+    }
+
+    const handleWithdraw = async () => {
+        if (!withdrawingApplication) return
+
+        setIsWithdrawing(true)
+        try {
+            const response = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/applications/${withdrawingApplication._id}/withdraw`, {
+                method: "POST",
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ reason: withdrawReason.trim() || undefined })
+            })
+
+            if (!response.ok) {
+                const err = await response.json().catch(() => ({}))
+                throw new Error(err.message || err.error || `HTTP ${response.status}`)
+            }
+
+            const updated = await response.json().catch(() => undefined)
+            onApplicationUpdated(updated ?? { ...withdrawingApplication, stage: "Withdrawn" })
+            toast.success(`Withdrew your application to ${withdrawingApplication.teamName || "the team"}`)
+            setWithdrawingApplication(undefined)
+        } catch (e) {
+            toast.error("Failed to withdraw application", { description: (e as Error).message })
+        } finally {
+            setIsWithdrawing(false)
+        }
+    }
 
     if (!fullName) return null
 
     return (
         <div className="flex flex-col gap-10 max-w-5xl mx-auto w-full px-4 pb-12 animate-in fade-in slide-in-from-bottom-4 duration-700">
+            <AlertDialog open={withdrawingApplication !== undefined} onOpenChange={(open) => { if (!open && !isWithdrawing) setWithdrawingApplication(undefined) }}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Withdraw your application?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {withdrawingApplication?.teamName || "The team"} will stop considering you for this recruitment cycle. This can't be undone.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="withdraw-reason" className="text-sm">Reason <span className="text-muted-foreground text-xs">(Optional, shared with recruiters)</span></Label>
+                        <Textarea
+                            id="withdraw-reason"
+                            value={withdrawReason}
+                            onChange={(e) => setWithdrawReason(e.target.value)}
+                            placeholder="Ex. I accepted another offer"
+                            className="resize-none"
+                        />
+                    </div>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isWithdrawing}>Keep Application</AlertDialogCancel>
+                        <Button variant="destructive" disabled={isWithdrawing} onClick={handleWithdraw}>
+                            {isWithdrawing && <Loader2Icon className="animate-spin h-4 w-4" />}
+                            Withdraw
+                        </Button>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
             <div className="flex flex-col gap-6">
                 <Button className='max-w-max h-8 text-muted-foreground hover:text-foreground' onClick={() => navigate("../")} variant="ghost" size="sm">
                     <ChevronLeftIcon className="h-4 w-4 mr-1" />
@@ -367,39 +634,47 @@ export const ATSApplicationsList = ({ applications, profile, fullName, email }:
                             <p className="font-bold text-lg text-foreground">{email}</p>
                         </div>
 
-                        {PERSONAL_INFO_FIELDS.map(field => {
+                        {profileSchema.map(field => {
                             const value = profile[field.id];
-                            if (!value && !field.required) return null;
+                            if (!value && !field.validation?.required) return null;
 
                             return (
                                 <div key={field.id} className="md:col-span-2 space-y-3 p-5 rounded-2xl border border-border/40 bg-card">
                                     <Label className="text-[10px] uppercase tracking-widest font-bold text-muted-foreground flex items-center gap-2">
-                                        {field.id === "linkedinUrl" && <LinkedinIcon className="h-3 w-3 text-primary/60" />}
-                                        {field.id === "githubUrl" && <GithubIcon className="h-3 w-3 text-primary/60" />}
-                                        {field.id === "resumeUrl" && <FileIcon className="h-3 w-3 text-primary/60" />}
+                                        {PROFILE_FIELD_ICONS[field.kind]}
                                         {field.label}
                                     </Label>
 
                                     <div className="flex items-start">
-                                        {value?.toString().startsWith("http") ? (
+                                        {field.kind === "file" && value ? (
                                             <a
-                                                href={value}
+                                                href={getApplicantFileHref(value)}
                                                 target="_blank"
                                                 rel="noopener noreferrer"
-                                                className="inline-flex items-center gap-2 font-bold text-primary hover:underline bg-primary/5 px-4 py-2 rounded-full border border-primary/10 transition-colors hover:bg-primary/10"
+                                                className="inline-flex items-center gap-3 font-bold text-primary hover:underline bg-primary/5 px-5 py-3 rounded-2xl border border-primary/20 shadow-sm transition-all hover:scale-[1.01]"
                                             >
-                                                {value}
-                                                <ExternalLinkIcon className="h-3 w-3" />
+                                                <FileIcon className="h-5 w-5" />
+                                                View Current File
                                             </a>
-                                        ) : field.id === "resumeUrl" && value ? (
+                                        ) : field.kind === "multiselect" && value ? (
+                                            <div className="flex flex-wrap gap-2">
+                                                {splitMultiselect(value).map(choice => (
+                                                    <Badge key={choice} variant="secondary" className="font-bold">{choice}</Badge>
+                                                ))}
+                                            </div>
+                                        ) : field.kind === "date" && value ? (
+                                            <p className="font-bold text-foreground">
+                                                {new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'long', day: 'numeric', year: 'numeric' })}
+                                            </p>
+                                        ) : field.kind === "url" && value && isHttpUrl(value) ? (
                                             <a
-                                                href={value.startsWith("http") ? value : `${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/resume/download?key=${encodeURIComponent(value as string)}`}
+                                                href={value}
                                                 target="_blank"
                                                 rel="noopener noreferrer"
-                                                className="inline-flex items-center gap-3 font-bold text-primary hover:underline bg-primary/5 px-5 py-3 rounded-2xl border border-primary/20 shadow-sm transition-all hover:scale-[1.01]"
+                                                className="inline-flex items-center gap-2 font-bold text-primary hover:underline bg-primary/5 px-4 py-2 rounded-full border border-primary/10 transition-colors hover:bg-primary/10"
                                             >
-                                                <FileIcon className="h-5 w-5" />
-                                                View Current Resume (PDF)
+                                                {value}
+                                                <ExternalLinkIcon className="h-3 w-3" />
                                             </a>
                                         ) : (
                                             <div className="w-full bg-muted/30 p-4 rounded-xl border border-border/20">
@@ -416,6 +691,99 @@ export const ATSApplicationsList = ({ applications, profile, fullName, email }:
                 </CardContent>
             </Card>
 
+            {/* Notification Preferences */}
+            <Card className="border-border/50 shadow-sm">
+                <CardContent className="flex flex-col gap-4">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-primary/10 p-3 rounded-2xl">
+                            <BellIcon className="h-6 w-6 text-primary" />
+                        </div>
+                        <div>
+                            <CardTitle className="text-xl font-bold">Status Updates</CardTitle>
+                            <CardDescription>Choose how we let you know when an application moves forward.</CardDescription>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="notify-email" className="flex flex-col items-start gap-0.5">
+                            <span className="font-bold">Email alerts</span>
+                            <span className="text-xs text-muted-foreground font-normal">Sent to {email} whenever your status changes.</span>
+                        </Label>
+                        <Switch
+                            id="notify-email"
+                            checked={notificationPreferences.email}
+                            onCheckedChange={(checked) => onNotificationPreferencesChange({ ...notificationPreferences, email: checked })}
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="notify-inapp" className="flex flex-col items-start gap-0.5">
+                            <span className="font-bold">In-app alerts</span>
+                            <span className="text-xs text-muted-foreground font-normal">Shown the next time you sign in here.</span>
+                        </Label>
+                        <Switch
+                            id="notify-inapp"
+                            checked={notificationPreferences.inApp}
+                            onCheckedChange={(checked) => onNotificationPreferencesChange({ ...notificationPreferences, inApp: checked })}
+                        />
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Drafts List */}
+            {visibleDrafts.length > 0 && (
+                <div className="space-y-6">
+                    <div className="flex items-center gap-4 px-2">
+                        <h2 className='text-2xl font-bold tracking-tight'>Drafts</h2>
+                        <Badge variant="secondary" className="bg-primary/10 text-primary border-none font-bold">
+                            {visibleDrafts.length} In Progress
+                        </Badge>
+                    </div>
+
+                    <div className="grid gap-4">
+                        {visibleDrafts.map((draft) => {
+                            const answeredCount = Object.values(draft.responses).filter(answer => answer?.trim()).length
+
+                            return (
+                                <Card key={draft.teamPk} className="border-border/50 border-dashed shadow-sm">
+                                    <CardContent className="flex flex-col md:flex-row md:items-center gap-4">
+                                        <div className="flex items-start gap-4 flex-1 min-w-0">
+                                            <div className="bg-primary/10 p-2 rounded-lg shrink-0">
+                                                <FilePenLineIcon className="h-5 w-5 text-primary" />
+                                            </div>
+                                            <div className="flex flex-col gap-1 min-w-0">
+                                                <h3 className="text-lg font-bold truncate">{draft.teamName || draft.teamPk}</h3>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Last edited {formatDistanceToNow(new Date(draft.updatedAt))} ago
+                                                    {" · "}{draft.selectedRoles.length} {draft.selectedRoles.length === 1 ? "role" : "roles"} selected
+                                                    {" · "}{answeredCount} {answeredCount === 1 ? "answer" : "answers"} written
+                                                </p>
+                                            </div>
+                                        </div>
+
+                                        <div className="flex gap-2 shrink-0">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-destructive hover:text-destructive"
+                                                disabled={discardingTeamPk === draft.teamPk}
+                                                onClick={() => handleDiscardDraft(draft)}
+                                            >
+                                                {discardingTeamPk === draft.teamPk ? <Loader2Icon className="animate-spin h-4 w-4" /> : <Trash2Icon className="h-4 w-4" />}
+                                                Discard
+                                            </Button>
+                                            <Button size="sm" className="font-bold" onClick={() => navigate(`/apply/${draft.teamPk}`)}>
+                                                Continue Application
+                                            </Button>
+                                        </div>
+                                    </CardContent>
+                                </Card>
+                            )
+                        })}
+                    </div>
+                </div>
+            )}
+
             {/* Applications List */}
             <div className="space-y-6">
                 <div className="flex items-center gap-4 px-2">
@@ -450,10 +818,79 @@ export const ATSApplicationsList = ({ applications, profile, fullName, email }:
                                                             Hired: {app.hiredRole}
                                                         </Badge>
                                                     )}
+                                                    {app.stage === "Withdrawn" && (
+                                                        <Badge variant="secondary" className="w-max text-muted-foreground">
+                                                            Withdrawn
+                                                        </Badge>
+                                                    )}
                                                 </div>
                                             </div>
+
+                                            {!TERMINAL_APPLICATION_STAGES.includes(app.stage) && (
+                                                <div className="flex gap-2 shrink-0">
+                                                    {app.stage === EDITABLE_APPLICATION_STAGE && (
+                                                        <Button variant="outline" size="sm" className="font-bold" onClick={() => navigate(`/apply/${app.teamPk}/edit`)}>
+                                                            <PencilIcon className="h-4 w-4" />
+                                                            Edit
+                                                        </Button>
+                                                    )}
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="text-destructive hover:text-destructive"
+                                                        onClick={() => {
+                                                            setWithdrawReason("")
+                                                            setWithdrawingApplication(app)
+                                                        }}
+                                                    >
+                                                        <UndoIcon className="h-4 w-4" />
+                                                        Withdraw
+                                                    </Button>
+                                                </div>
+                                            )}
                                         </div>
 
+                                        {app.stage === "Interview" && app.interview && (
+                                            <div className="p-5 rounded-2xl border border-primary/20 bg-primary/5 space-y-3">
+                                                <div className="flex items-center gap-2 font-bold text-primary">
+                                                    <CalendarIcon className="h-4 w-4" />
+                                                    You're invited to interview!
+                                                </div>
+                                                {app.interview.interviewGuidelines && (
+                                                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{app.interview.interviewGuidelines}</p>
+                                                )}
+                                                <Button size="sm" asChild className="font-bold">
+                                                    <a href={app.interview.interviewLink} target="_blank" rel="noopener noreferrer">
+                                                        Schedule or Join Interview
+                                                        <ExternalLinkIcon className="h-3.5 w-3.5" />
+                                                    </a>
+                                                </Button>
+                                            </div>
+                                        )}
+
+                                        <ApplicationStatusTimeline application={app} />
+
+                                        {app.documents && app.documents.length > 0 && (
+                                            <div className="p-4 rounded-xl bg-muted/20 border border-border/30">
+                                                <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider mb-3">Submitted Documents</p>
+                                                <div className="flex flex-wrap gap-2">
+                                                    {app.documents.map((doc) => (
+                                                        <a
+                                                            key={doc.versionId}
+                                                            href={getApplicantFileHref(doc.fileKey)}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="inline-flex items-center gap-2 text-sm font-bold text-primary hover:underline bg-primary/5 px-3 py-1.5 rounded-full border border-primary/10"
+                                                        >
+                                                            <FileIcon className="h-3.5 w-3.5" />
+                                                            {doc.name}
+                                                            <span className="text-xs font-medium text-muted-foreground">v{doc.version}</span>
+                                                        </a>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+
                                         {app.responses && Object.keys(app.responses).length > 0 && (
                                             <Accordion type="single" collapsible className="w-full">
                                                 <AccordionItem value="responses" className="border-none">
@@ -515,6 +952,486 @@ export const ATSApplicationsList = ({ applications, profile, fullName, email }:
 }
 
 
+const ApplicationStatusTimeline = ({ application }: { application: ATSApplication }) => {
+    // Older applications predate stage history, so start from the submission
+    const history = application.stageHistory?.length ? application.stageHistory : [{ stage: "Applied", changedAt: application.appliedAt }]
+    const isTerminal = TERMINAL_APPLICATION_STAGES.includes(application.stage)
+
+    // Internal moves that share a public label collapse into one step
+    const steps = history.filter((entry, idx) =>
+        idx === 0 || 'action' in entry && entry.action === 'edited' || getPublicStatus(entry.stage).label !== getPublicStatus(history[idx - 1].stage).label
+    )
+
+    return (
+        <div className="p-4 rounded-xl bg-muted/20 border border-border/30">
+            <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider mb-3">Application Status</p>
+            <Timeline size="sm">
+                {steps.map((entry, idx) => {
+                    const isEdit = 'action' in entry && entry.action === 'edited'
+                    const status = getPublicStatus(entry.stage)
+                    const isCurrent = idx === steps.length - 1
+
+                    return (
+                        <TimelineItem
+                            key={idx}
+                            date={new Date(entry.changedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                            title={isEdit ? "Application Edited" : status.label}
+                            description={isEdit ? "You updated your responses." : status.description}
+                            icon={isEdit ? <PencilIcon /> : status.icon}
+                            iconColor={isEdit ? "muted" : status.color}
+                            status={isCurrent && !isTerminal ? "in-progress" : "completed"}
+                            showConnector={!isCurrent}
+                        />
+                    )
+                })}
+            </Timeline>
+        </div>
+    )
+}
+
+const ProfileFieldInput = ({
+    field,
+    value,
+    onChange,
+    onFileSelected,
+    isUploading
+}: {
+    field: ProfileField,
+    value: string,
+    onChange: (value: string) => void,
+    onFileSelected: (e: React.ChangeEvent<HTMLInputElement>) => void,
+    isUploading: boolean
+}) => {
+    const rules = field.validation ?? {}
+    const inputId = `profile-${field.id}`
+
+    const renderControl = () => {
+        switch (field.kind) {
+            case "file":
+                return (
+                    <div className="flex items-center gap-3">
+                        <Input
+                            id={inputId}
+                            type="file"
+                            accept={rules.accept}
+                            onChange={onFileSelected}
+                            disabled={isUploading}
+                            className="hidden"
+                        />
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={isUploading}
+                            onClick={() => document.getElementById(inputId)?.click()}
+                            className="font-bold bg-background h-9 px-4"
+                        >
+                            {isUploading ? <Loader2Icon className="animate-spin mr-2 h-4 w-4" /> : <UploadCloud className="mr-2 h-4 w-4 text-primary" />}
+                            {value ? "Replace File" : "Upload File"}
+                        </Button>
+
+                        {value && (
+                            <Button variant="link" size="sm" asChild className="h-9 px-0 text-primary font-bold">
+                                <a
+                                    href={getApplicantFileHref(value)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center gap-1.5"
+                                >
+                                    View Uploaded File
+                                    <ExternalLinkIcon className="h-3.5 w-3.5" />
+                                </a>
+                            </Button>
+                        )}
+                    </div>
+                )
+
+            case "select":
+                return (
+                    <Select value={value} onValueChange={onChange}>
+                        <SelectTrigger id={inputId} className="w-full bg-background">
+                            <SelectValue placeholder={field.placeholder ?? "Select an option"} />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {field.options?.map((option) => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )
+
+            case "multiselect": {
+                const selected = splitMultiselect(value)
+                const toggleOption = (option: string, checked: boolean) => {
+                    const next = checked ? [...selected, option] : selected.filter(choice => choice !== option)
+                    // Keep the schema's option order regardless of click order
+                    onChange(joinMultiselect(field.options?.filter(o => next.includes(o)) ?? next))
+                }
+
+                return (
+                    <div id={inputId} role="group" aria-label={field.label} className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {field.options?.map((option) => (
+                            <Label key={option} className="flex items-center gap-2 p-3 rounded-lg border border-border/50 bg-background font-medium cursor-pointer">
+                                <Checkbox
+                                    checked={selected.includes(option)}
+                                    onCheckedChange={(checked) => toggleOption(option, checked === true)}
+                                />
+                                {option}
+                            </Label>
+                        ))}
+                    </div>
+                )
+            }
+
+            case "longtext": {
+                const words = countWords(value)
+                return (
+                    <div className="space-y-2">
+                        <Textarea
+                            id={inputId}
+                            placeholder={field.placeholder ?? "Enter your answer"}
+                            value={value}
+                            className="min-h-[140px] resize-none focus-visible:ring-primary shadow-sm bg-background"
+                            onChange={(e) => onChange(e.target.value)}
+                        />
+                        {rules.maxWords && (
+                            <div className="flex justify-end px-1">
+                                <Badge variant="outline" className={`text-[10px] tabular-nums font-bold border-none bg-muted/30 ${words > rules.maxWords ? 'text-destructive' : 'text-muted-foreground'}`}>
+                                    {words} / {rules.maxWords} words
+                                </Badge>
+                            </div>
+                        )}
+                    </div>
+                )
+            }
+
+            default:
+                return (
+                    <Input
+                        id={inputId}
+                        type={field.kind === "text" ? "text" : field.kind}
+                        placeholder={field.placeholder ?? "Enter your answer"}
+                        value={value}
+                        min={rules.min}
+                        max={rules.max}
+                        className="focus-visible:ring-primary shadow-sm bg-background"
+                        onChange={(e) => onChange(e.target.value)}
+                    />
+                )
+        }
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center">
+                <Label htmlFor={inputId} className="text-sm font-bold flex items-center gap-1.5 text-foreground/80">
+                    {field.label}
+                    {rules.required && <span className="text-destructive font-bold">*</span>}
+                </Label>
+                {field.kind === "file" && value && (
+                    <div className="flex ml-4 items-center gap-1.5 text-[11px] text-green-600 font-bold">
+                        <CheckCircle2 className="h-3.5 w-3.5" />
+                        Uploaded
+                    </div>
+                )}
+            </div>
+            {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+            {renderControl()}
+        </div>
+    )
+}
+
+const ResumeSuggestionsPanel = ({
+    isParsing,
+    suggestions,
+    onResolve,
+    onDismissAll
+}: {
+    isParsing: boolean,
+    suggestions: ProfileSuggestion[],
+    onResolve: (suggestion: ProfileSuggestion, accepted: boolean) => void,
+    onDismissAll: () => void
+}) => {
+    return (
+        <div className="rounded-2xl border border-primary/20 bg-primary/5 p-4 space-y-3" aria-live="polite">
+            <div className="flex items-center gap-2">
+                {isParsing ? <Loader2Icon className="h-4 w-4 animate-spin text-primary" /> : <SparklesIcon className="h-4 w-4 text-primary" />}
+                <div className="flex flex-col">
+                    <p className="text-sm font-bold">{isParsing ? "Reading your resume..." : "Found in your resume"}</p>
+                    {!isParsing && <p className="text-xs text-muted-foreground">Review each suggestion, nothing is filled in until you choose Use.</p>}
+                </div>
+                {!isParsing && (
+                    <Button variant="ghost" size="sm" className="ml-auto text-xs" onClick={onDismissAll}>Dismiss All</Button>
+                )}
+            </div>
+
+            {suggestions.map((suggestion) => (
+                <div key={suggestion.fieldId} className="flex items-center gap-3 p-3 rounded-xl bg-background border border-border/50">
+                    <div className="flex flex-col min-w-0 flex-grow">
+                        <span className="text-[10px] uppercase tracking-widest font-bold text-muted-foreground">{suggestion.label}</span>
+                        <span className="font-bold text-sm truncate">{suggestion.value}</span>
+                        <span className="text-[11px] text-muted-foreground">{suggestion.reason}</span>
+                    </div>
+                    <Button size="sm" variant="outline" className="font-bold shrink-0" onClick={() => onResolve(suggestion, true)} aria-label={`Use ${suggestion.value} for ${suggestion.label}`}>
+                        <CheckIcon className="h-3.5 w-3.5" />
+                        Use
+                    </Button>
+                    <Button size="icon" variant="ghost" className="shrink-0" onClick={() => onResolve(suggestion, false)} aria-label={`Dismiss suggestion for ${suggestion.label}`}>
+                        <XIcon className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+const DocumentLibraryCard = ({
+    documents,
+    onDocumentsUpdate,
+    pinnedDocuments = [],
+    attachments,
+    onAttachmentsChange,
+    onResumeSelected
+}: {
+    documents: ApplicantDocument[],
+    onDocumentsUpdate: React.Dispatch<React.SetStateAction<ApplicantDocument[]>>,
+    pinnedDocuments?: PinnedDocument[],
+    attachments: DocumentAttachment[],
+    onAttachmentsChange: React.Dispatch<React.SetStateAction<DocumentAttachment[]>>,
+    onResumeSelected?: (file: File) => void
+}) => {
+    const [newDocumentKind, setNewDocumentKind] = React.useState<ApplicantDocumentKind>("resume")
+    const [newDocumentName, setNewDocumentName] = React.useState("")
+    const [uploadingDocumentId, setUploadingDocumentId] = React.useState<string | null>(null)
+    const [deletingDocument, setDeletingDocument] = React.useState<ApplicantDocument | null>(null)
+
+    // Versions pinned to this application stay attachable even after leaving the library
+    const rows = [
+        ...documents,
+        ...pinnedDocuments
+            .filter(pinned => !documents.some(doc => doc.documentId === pinned.documentId))
+            .map(({ documentId, name, kind, ...version }) => ({ documentId, name, kind, versions: [version] }))
+    ]
+
+    const checkFile = async (file: File) => {
+        if (file.size > MAX_DOCUMENT_SIZE_MB * 1024 * 1024) {
+            toast.error(`File is too large. Maximum size is ${MAX_DOCUMENT_SIZE_MB}MB.`)
+            return false
+        }
+
+        if (!(await isPDFFile(file))) {
+            toast.error("The uploaded file does not appear to be a valid PDF. Please check the file and try again.")
+            return false
+        }
+
+        return true
+    }
+
+    // Uploads resolve later, so always apply on top of the latest choices
+    const setAttachment = (documentId: string, versionId?: string, onlyIfAttached = false) => {
+        onAttachmentsChange(current => {
+            const others = current.filter(attachment => attachment.documentId !== documentId)
+            if (onlyIfAttached && others.length === current.length) return current
+            return versionId ? [...others, { documentId, versionId }] : others
+        })
+    }
+
+    const handleCreateDocument = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ""
+        if (!file || !(await checkFile(file))) return
+        if (newDocumentKind === "resume") onResumeSelected?.(file)
+
+        setUploadingDocumentId("new")
+        try {
+            const name = newDocumentName.trim() || file.name.replace(/\.pdf$/i, "")
+            const document = await createDocument(file, name, newDocumentKind)
+            onDocumentsUpdate(current => [...current, document])
+            setAttachment(document.documentId, latestVersion(document)?.versionId)
+            setNewDocumentName("")
+            toast.success(`${name} added to your documents`)
+        } catch (error) {
+            console.error(error)
+            toast.error("Failed to upload document")
+        } finally {
+            setUploadingDocumentId(null)
+        }
+    }
+
+    const handleAddVersion = async (document: ApplicantDocument, e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ""
+        if (!file || !(await checkFile(file))) return
+        if (document.kind === "resume") onResumeSelected?.(file)
+
+        setUploadingDocumentId(document.documentId)
+        try {
+            const updated = await addDocumentVersion(document, file)
+            const newest = latestVersion(updated)
+            onDocumentsUpdate(current => current.map(doc => doc.documentId === updated.documentId ? updated : doc))
+
+            // Uploading while applying means the applicant wants the new version here
+            if (newest) setAttachment(updated.documentId, newest.versionId, true)
+
+            toast.success(`Uploaded ${updated.name} v${newest?.version}`)
+        } catch (error) {
+            console.error(error)
+            toast.error("Failed to upload new version")
+        } finally {
+            setUploadingDocumentId(null)
+        }
+    }
+
+    const handleDeleteDocument = (document: ApplicantDocument) => {
+        deleteDocument(document.documentId)
+            .then(() => {
+                onDocumentsUpdate(current => current.filter(doc => doc.documentId !== document.documentId))
+                setAttachment(document.documentId)
+                toast.success(`${document.name} removed from your documents`)
+            })
+            .catch((e) => toast.error("Failed to remove document", { description: e.message }))
+            .finally(() => setDeletingDocument(null))
+    }
+
+    return (
+        <Card className="shadow-sm border-border/50 overflow-hidden">
+            <AlertDialog open={!!deletingDocument} onOpenChange={(open) => !open && setDeletingDocument(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Remove {deletingDocument?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            It won't be offered for future applications. Applications you've already submitted keep the version they were sent with.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Keep Document</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deletingDocument && handleDeleteDocument(deletingDocument)}>Remove</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
+            <CardHeader className="pt-0 flex bg-muted/40" style={{ padding: "15px" }}>
+                <CardTitle className='pt-0 text-sm font-bold flex items-center gap-2.5 text-foreground/80'>
+                    <FilesIcon className="h-5 w-5 text-primary" />
+                    <div className="flex flex-col">
+                        <p>Documents</p>
+                        <p className='text-xs text-muted-foreground'>This application keeps the exact versions you attach, later uploads won't change them</p>
+                    </div>
+                </CardTitle>
+                <CardDescription className="text-xs"></CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {rows.map((document) => {
+                    const attachment = attachments.find(el => el.documentId === document.documentId)
+                    const isArchived = !documents.includes(document as ApplicantDocument)
+                    const isUploading = uploadingDocumentId === document.documentId
+                    const shownVersion = document.versions.find(v => v.versionId === attachment?.versionId) ?? latestVersion(document)
+                    const inputId = `document-${document.documentId}`
+
+                    return (
+                        <div key={document.documentId} className={`flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-xl border ${attachment ? 'border-primary/40 bg-primary/5' : 'border-border/50 bg-background'}`}>
+                            <Label className="flex items-center gap-3 flex-grow min-w-0 cursor-pointer">
+                                <Checkbox
+                                    checked={!!attachment}
+                                    onCheckedChange={(checked) => setAttachment(document.documentId, checked === true ? latestVersion(document)?.versionId : undefined)}
+                                />
+                                <div className="flex flex-col min-w-0 gap-0.5">
+                                    <span className="font-bold truncate flex items-center gap-2">
+                                        {document.name}
+                                        <Badge variant="outline" className="text-[10px]">{DOCUMENT_KIND_LABELS[document.kind]}</Badge>
+                                    </span>
+                                    <span className="text-xs text-muted-foreground font-normal">
+                                        {isArchived ? "Removed from your library" : `${document.versions.length} version${document.versions.length === 1 ? "" : "s"}`}
+                                        {shownVersion && ` · ${shownVersion.fileName}`}
+                                    </span>
+                                </div>
+                            </Label>
+
+                            <div className="flex items-center gap-1 shrink-0">
+                                {attachment && document.versions.length > 1 && (
+                                    <Select value={attachment.versionId} onValueChange={(versionId) => setAttachment(document.documentId, versionId)}>
+                                        <SelectTrigger size="sm" className="w-[170px] bg-background" aria-label={`${document.name} version`}>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {[...document.versions].sort((a, b) => b.version - a.version).map((version) => (
+                                                <SelectItem key={version.versionId} value={version.versionId}>
+                                                    v{version.version} · {new Date(version.uploadedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                )}
+
+                                {shownVersion && (
+                                    <Button variant="ghost" size="icon" asChild aria-label={`View ${document.name}`}>
+                                        <a href={getApplicantFileHref(shownVersion.fileKey)} target="_blank" rel="noopener noreferrer">
+                                            <ExternalLinkIcon />
+                                        </a>
+                                    </Button>
+                                )}
+
+                                {!isArchived && (
+                                    <>
+                                        <Input id={inputId} type="file" accept=".pdf" className="hidden" onChange={(e) => handleAddVersion(document, e)} />
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            aria-label={`Upload a new version of ${document.name}`}
+                                            disabled={isUploading}
+                                            onClick={() => window.document.getElementById(inputId)?.click()}
+                                        >
+                                            {isUploading ? <Loader2Icon className="animate-spin" /> : <UploadCloud />}
+                                        </Button>
+                                        <Button variant="ghost" size="icon" aria-label={`Remove ${document.name}`} className="text-destructive" onClick={() => setDeletingDocument(document)}>
+                                            <Trash2Icon />
+                                        </Button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    )
+                })}
+
+                {rows.length === 0 && (
+                    <p className="text-sm text-muted-foreground py-2">Upload your resume to get started. You can reuse it for every application.</p>
+                )}
+
+                {/* Add Document */}
+                <div className="flex flex-col sm:flex-row gap-2 pt-3 border-t border-border/40">
+                    <Select value={newDocumentKind} onValueChange={(kind) => setNewDocumentKind(kind as ApplicantDocumentKind)}>
+                        <SelectTrigger className="sm:w-[140px] bg-background" aria-label="Document type">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(DOCUMENT_KIND_LABELS).map(([kind, label]) => (
+                                <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        placeholder="Name, e.g. Software Resume"
+                        value={newDocumentName}
+                        className="bg-background"
+                        onChange={(e) => setNewDocumentName(e.target.value)}
+                    />
+                    <Input id="document-new" type="file" accept=".pdf" className="hidden" onChange={handleCreateDocument} />
+                    <Button
+                        type="button"
+                        variant="outline"
+                        disabled={uploadingDocumentId === "new"}
+                        onClick={() => window.document.getElementById("document-new")?.click()}
+                        className="font-bold bg-background"
+                    >
+                        {uploadingDocumentId === "new" ? <Loader2Icon className="animate-spin" /> : <PlusIcon />}
+                        Upload PDF
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
+
 // Sortable Item Component
 const SortableRoleItem = ({ id, onRemove }: { id: string, onRemove: (id: string) => void }) => {
     const {
@@ -689,16 +1606,32 @@ const RolePreferenceSelector = ({
 
 
 const ATSApplyPage = ({
+    editing = false,
     applications,
+    drafts,
+    onDraftSaved,
+    onDraftRemoved,
+    documents,
+    onDocumentsUpdate,
+    profileSchema,
     profile: parentProfile,
     onProfileUpdate,
     fullName,
+    email,
     onRequestLogin
 }: {
+    editing?: boolean,
     applications: ATSApplication[],
+    drafts: ATSApplicationDraft[],
+    onDraftSaved: (draft: ATSApplicationDraft) => void,
+    onDraftRemoved: (teamPk: string) => void,
+    documents: ApplicantDocument[],
+    onDocumentsUpdate: React.Dispatch<React.SetStateAction<ApplicantDocument[]>>,
+    profileSchema: ProfileField[],
     profile: ApplicantProfile,
     onProfileUpdate: (p: ApplicantProfile) => void,
     fullName: string,
+    email: string,
     onRequestLogin: () => void
 }) => {
     const navigate = useNavigate()
@@ -719,6 +1652,9 @@ const ATSApplyPage = ({
     const [selectedRoles, setSelectedRoles] = React.useState<string[]>([])
     const [profile, setProfile] = React.useState<ApplicantProfile>(parentProfile)
     const [responses, setResponses] = React.useState<{ [question: string]: string }>({})
+    const [attachments, setAttachments] = React.useState<DocumentAttachment[]>([])
+    const [resumeSuggestions, setResumeSuggestions] = React.useState<ProfileSuggestion[]>([])
+    const [isParsingResume, setIsParsingResume] = React.useState(false)
 
     // Initial sync - only sync if local profile is empty to prevent overwriting user input
     React.useEffect(() => {
@@ -728,20 +1664,65 @@ const ATSApplyPage = ({
     }, [parentProfile])
 
     const [isSubmitting, setIsSubmitting] = React.useState(false)
-    const [isUploading, setIsUploading] = React.useState(false)
-
-    // NEW: Fetch team data and build role mappings
+    const now = useNow()
+    const [uploadingFieldId, setUploadingFieldId] = React.useState<string | null>(null)
+
+    // Draft autosave state
+    const [draftStatus, setDraftStatus] = React.useState<DraftSaveStatus>("idle")
+    const [lastSavedAt, setLastSavedAt] = React.useState<Date>()
+    const [hasUnsyncedChanges, setHasUnsyncedChanges] = React.useState(false)
+    const [leaveDialogOpen, setLeaveDialogOpen] = React.useState(false)
+    const draftRestoredRef = React.useRef(false)
+    const skipNextAutosaveRef = React.useRef(false)
+    const hasSavedDraftRef = React.useRef(false)
+    const lastAutosaveInputRef = React.useRef<{ selectedRoles: string[], responses: { [question: string]: string }, profile: ApplicantProfile, attachments: DocumentAttachment[] }>(undefined)
+    const pendingDraftRef = React.useRef<ATSApplicationDraft>(undefined)
+
+    // The parent passes new callbacks every render, which would otherwise restart the autosave
+    const onDraftSavedRef = React.useRef(onDraftSaved)
+    const onDraftRemovedRef = React.useRef(onDraftRemoved)
+    onDraftSavedRef.current = onDraftSaved
+    onDraftRemovedRef.current = onDraftRemoved
+
+    // Editing a submitted application skips drafts, the application itself is the saved copy
+    const editingApplication = editing ? applications.find(app => app.teamPk === params.teamId) : undefined
+    const editPrefilledRef = React.useRef(false)
+
+    // Leave when this team can't be applied to or edited
     React.useEffect(() => {
+        if (editing) {
+            // Applications load with the session, wait for them before deciding
+            if (!fullName) return
+
+            if (!editingApplication) {
+                toast.error("We couldn't find that application.")
+                navigate("/apply/applications")
+                return
+            }
+
+            if (editingApplication.stage !== EDITABLE_APPLICATION_STAGE) {
+                toast.error("This application is already being reviewed and can no longer be edited.")
+                navigate("/apply/applications")
+                return
+            }
+        }
+
         // Check if already applied to this TEAM
-        if (applications.some(app => app.teamPk === params.teamId)) {
+        else if (applications.some(app => app.teamPk === params.teamId)) {
             toast.error("You've already applied to this team.")
             navigate("/apply")
-            return
         }
+    }, [params.teamId, applications, navigate, editing, editingApplication, fullName])
+
+    // NEW: Fetch team data and build role mappings
+    // Keyed on the team alone, so application updates mid-edit don't reload the page
+    React.useEffect(() => {
+        let cancelled = false
 
         // Fetch team data with all subteam configs
         fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/openteams/${params.teamId}`, { credentials: 'include' })
             .then(async (res) => {
+                if (cancelled) return
                 if (!res.ok) {
                     const err = await res.json()
                     toast.error(err.message || "Failed to load team data")
@@ -750,6 +1731,7 @@ const ATSApplyPage = ({
                 }
 
                 const data: ATSTeamData = await res.json()
+                if (cancelled) return
                 setTeamData(data)
 
                 // Build flat role list and mapping
@@ -767,11 +1749,160 @@ const ATSApplyPage = ({
                 setRoleToSubteamMap(mapping)
             })
             .catch(err => {
+                if (cancelled) return
                 console.error(err)
                 toast.error("Failed to load team information")
                 navigate("/apply")
             })
-    }, [params.teamId, applications, navigate])
+
+        return () => { cancelled = true }
+    }, [params.teamId, navigate])
+
+    // Prefill the form with the submitted application
+    React.useEffect(() => {
+        if (!editingApplication || allRoles.length === 0 || editPrefilledRef.current) return
+        editPrefilledRef.current = true
+
+        setSelectedRoles(editingApplication.rolePreferences.map(pref => pref.role).filter(role => allRoles.includes(role)))
+        setResponses(editingApplication.responses || {})
+        setAttachments(editingApplication.documents?.map(({ documentId, versionId }) => ({ documentId, versionId })) || [])
+    }, [editingApplication, allRoles])
+
+    // Restore the newest draft once the team's roles are known
+    React.useEffect(() => {
+        if (!teamData || !email || editing || draftRestoredRef.current) return
+        draftRestoredRef.current = true
+
+        const draft = newestDraft(drafts.find(el => el.teamPk === teamData.teamPk), loadLocalDraft(email, teamData.teamPk))
+        if (!draft) {
+            // Start with the most recent resume attached, most applicants only keep one
+            const resume = documents.filter(doc => doc.kind === "resume")
+                .map(doc => ({ documentId: doc.documentId, version: latestVersion(doc) }))
+                .sort((a, b) => (b.version?.uploadedAt ?? "").localeCompare(a.version?.uploadedAt ?? ""))[0]
+            if (resume?.version) {
+                skipNextAutosaveRef.current = true
+                setAttachments([{ documentId: resume.documentId, versionId: resume.version.versionId }])
+            }
+            return
+        }
+
+        // Restoring fills the form, which isn't an edit worth saving again
+        skipNextAutosaveRef.current = true
+        hasSavedDraftRef.current = true
+
+        // Roles may have closed since the draft was saved
+        setSelectedRoles(draft.selectedRoles.filter(role => allRoles.includes(role)))
+        setResponses(prev => ({ ...prev, ...draft.responses }))
+        setProfile(prev => ({ ...prev, ...draft.profile }))
+        setAttachments(draft.documents?.filter(attachment => documents.some(doc => doc.documentId === attachment.documentId)) || [])
+        setLastSavedAt(new Date(draft.updatedAt))
+        setDraftStatus("saved")
+        toast.info("Draft restored", { description: "We've picked up where you left off." })
+    }, [teamData, allRoles, email, editing, drafts, documents])
+
+    // Autosave locally right away and to the server once typing settles
+    React.useEffect(() => {
+        const previous = lastAutosaveInputRef.current
+        lastAutosaveInputRef.current = { selectedRoles, responses, profile, attachments }
+        if (!draftRestoredRef.current || !teamData || !email) return
+
+        // Runs for the team, email or saved profile changing alone have nothing new to save
+        if (previous && previous.selectedRoles === selectedRoles && previous.responses === responses &&
+            previous.profile === profile && previous.attachments === attachments) return
+
+        if (skipNextAutosaveRef.current) {
+            skipNextAutosaveRef.current = false
+            return
+        }
+
+        const profileEdits = Object.fromEntries(Object.entries(profile).filter(([key, value]) => value !== parentProfile[key]))
+        const isEmpty = selectedRoles.length === 0 && Object.keys(profileEdits).length === 0 &&
+            Object.values(responses).every(answer => !answer?.trim()) && attachments.length === 0
+
+        // Clearing every field discards the draft, otherwise the old one comes back next visit
+        if (isEmpty) {
+            pendingDraftRef.current = undefined
+            setHasUnsyncedChanges(false)
+            if (!hasSavedDraftRef.current) return
+
+            hasSavedDraftRef.current = false
+            clearLocalDraft(email, teamData.teamPk)
+            setDraftStatus("idle")
+            setLastSavedAt(undefined)
+            deleteServerDraft(teamData.teamPk)
+                .then(() => onDraftRemovedRef.current(teamData.teamPk))
+                .catch(e => console.error(e))
+            return
+        }
+
+        const draft: ATSApplicationDraft = {
+            teamPk: teamData.teamPk,
+            teamName: teamData.teamInfo.friendlyName,
+            selectedRoles,
+            responses,
+            profile: profileEdits,
+            documents: attachments,
+            updatedAt: new Date().toISOString()
+        }
+
+        saveLocalDraft(email, draft)
+        hasSavedDraftRef.current = true
+        pendingDraftRef.current = draft
+        setHasUnsyncedChanges(true)
+
+        const timeout = setTimeout(() => {
+            setDraftStatus("saving")
+            saveServerDraft(draft)
+                .then((saved) => {
+                    if (pendingDraftRef.current === draft) {
+                        pendingDraftRef.current = undefined
+                        setHasUnsyncedChanges(false)
+                    }
+
+                    setDraftStatus("saved")
+                    setLastSavedAt(new Date(saved.updatedAt))
+                    onDraftSavedRef.current(saved)
+                })
+                .catch((e) => {
+                    // An expired session lands here, the local copy is restored after signing back in
+                    console.error(e)
+                    setDraftStatus("local")
+                    setLastSavedAt(new Date(draft.updatedAt))
+                })
+        }, DRAFT_AUTOSAVE_DELAY_MS)
+
+        return () => clearTimeout(timeout)
+    }, [selectedRoles, responses, profile, attachments, teamData, email, parentProfile])
+
+    // Flush edits that haven't reached the server when navigating within the app
+    React.useEffect(() => {
+        return () => {
+            if (pendingDraftRef.current)
+                saveServerDraft(pendingDraftRef.current, true).catch(e => console.error(e))
+        }
+    }, [])
+
+    // Browsers only allow a generic prompt when closing or reloading the tab
+    React.useEffect(() => {
+        if (!hasUnsyncedChanges) return
+
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault()
+            e.returnValue = ""
+        }
+
+        window.addEventListener("beforeunload", handleBeforeUnload)
+        return () => window.removeEventListener("beforeunload", handleBeforeUnload)
+    }, [hasUnsyncedChanges])
+
+    const handleBack = () => {
+        if (hasUnsyncedChanges) {
+            setLeaveDialogOpen(true)
+            return
+        }
+
+        navigate(editing ? "/apply/applications" : "../")
+    }
 
     // Autofill team interest question if previously applied to this team
     React.useEffect(() => {
@@ -796,31 +1927,40 @@ const ATSApplyPage = ({
         }
     }, [teamData, applications, responses]);
 
+    // Roles are only offered while their subteam's window is open
+    const getRoleSubteam = (role: string) => teamData?.recruitingSubteams.find(s => s.subteamPk === roleToSubteamMap.get(role))
+    const openRoles = allRoles.filter(role => isAcceptingApplications(getRoleSubteam(role) ?? {}, now))
+    const closedRoles = allRoles.filter(role => !openRoles.includes(role))
+    const deadlineWindows = (selectedRoles.length > 0 ? selectedRoles.map(getRoleSubteam) : teamData?.recruitingSubteams ?? [])
+        .filter((subteam) => subteam !== undefined)
+    const closesAt = soonestClosingAt(deadlineWindows, now)
+    const isClosingSoon = !!closesAt && getRecruitmentWindowState({ closesAt }, now) === "closing-soon"
+    const isTeamClosed = !!teamData && openRoles.length === 0
+
     const handleApply = async () => {
         if (selectedRoles.length === 0) {
             return toast.error("Please select at least one role.")
         }
 
-        // Validate profile fields
-        for (const field of PERSONAL_INFO_FIELDS) {
-            if (field.required && !profile[field.id]) {
-                return toast.error(`Please provide your ${field.label.toLowerCase()}.`)
-            }
+        // The server rejects late submissions too, this just explains why
+        const closedRole = selectedRoles.find(role => closedRoles.includes(role))
+        if (closedRole) {
+            return toast.error(`Applications for ${closedRole} are closed.`, { description: "Remove it from your selected roles to continue." })
+        }
 
-            if (field.id === "whyAppDev" && profile[field.id]) {
-                const words = profile[field.id]!.trim().split(/\s+/).filter(Boolean).length;
-                if (words > 200) {
-                    return toast.error("Your 'Why App Dev' response must be 200 words or less.")
-                }
+        // Validate profile fields against the schema
+        for (const field of profileSchema) {
+            const error = validateProfileValue(field, profile[field.id])
+            if (error) {
+                return toast.error(error)
             }
+        }
 
-            if ((field.id === "linkedinUrl" || field.id === "githubUrl") && profile[field.id]?.trim()) {
-                try {
-                    new URL(profile[field.id]!)
-                } catch {
-                    return toast.error(`Please enter a valid URL for ${field.id === "linkedinUrl" ? "LinkedIn" : "GitHub"}.`)
-                }
-            }
+        // Recruiters always need a resume, other documents are optional
+        const attachedKinds = attachments.map(attachment =>
+            (documents.find(doc => doc.documentId === attachment.documentId) ?? editingApplication?.documents?.find(doc => doc.documentId === attachment.documentId))?.kind)
+        if (!attachedKinds.includes("resume")) {
+            return toast.error("Please attach a resume.")
         }
 
         // Validate team question and role-specific questions
@@ -834,10 +1974,15 @@ const ATSApplyPage = ({
             for (const role of selectedRoles) {
                 const subteamPk = roleToSubteamMap.get(role)!
                 const subteam = teamData.recruitingSubteams.find(s => s.subteamPk === subteamPk)
-                const questions = subteam?.roleSpecificQuestions[role] || []
-                for (const q of questions) {
-                    if (!responses[q]) {
-                        return toast.error(`Please answer: ${q}`)
+                const questions = getRoleQuestions(subteam, role)
+                for (const [idx, q] of questions.entries()) {
+                    if (q.required && !responses[q.prompt]?.trim()) {
+                        return toast.error(`Please answer: ${q.prompt}`)
+                    }
+
+                    const error = validateProfileValue(toProfileField(q, getRoleQuestionId(role, idx)), responses[q.prompt])
+                    if (error) {
+                        return toast.error(error)
                     }
                 }
             }
@@ -845,6 +1990,11 @@ const ATSApplyPage = ({
 
         setIsSubmitting(true)
 
+        if (editingApplication) {
+            await handleSaveEdits(editingApplication)
+            return
+        }
+
         try {
             const response = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/applications/apply`, {
                 method: "POST",
@@ -858,10 +2008,19 @@ const ATSApplyPage = ({
                     })), // Send ordered roles directly
                     profile: profile,
                     responses: responses,
+                    responseKinds: getResponseKinds(),
+                    documents: attachments,
                 })
             })
 
             if (response.ok) {
+                // The submitted application replaces the draft
+                pendingDraftRef.current = undefined
+                setHasUnsyncedChanges(false)
+                clearLocalDraft(email, params.teamId!)
+                deleteServerDraft(params.teamId!).catch(e => console.error(e))
+                onDraftRemoved(params.teamId!)
+
                 toast.success("Application submitted successfully!")
                 navigate("/apply")
             } else {
@@ -875,94 +2034,152 @@ const ATSApplyPage = ({
         }
     }
 
-    const handleResumeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0]
-        if (!file) return
+    // Sent with the answers so recruiters see them as the type they were asked as, even if the question changes later
+    const getResponseKinds = (): { [question: string]: RoleQuestionKind } => Object.fromEntries(selectedRoles.flatMap(role => {
+        const subteam = teamData?.recruitingSubteams.find(s => s.subteamPk === roleToSubteamMap.get(role))
+        return getRoleQuestions(subteam, role).map(q => [q.prompt, q.kind])
+    }))
 
-        if (file.type !== "application/pdf") {
-            return toast.error("Please upload a PDF file.")
-        }
+    const handleSaveEdits = async (application: ATSApplication) => {
+        // Drop answers to questions for roles that were removed
+        const teamQuestionKey = `Why are you interested in ${teamData?.teamInfo.friendlyName}?`
+        const activeQuestions = new Set([teamQuestionKey, ...selectedRoles.flatMap(role => {
+            const subteam = teamData?.recruitingSubteams.find(s => s.subteamPk === roleToSubteamMap.get(role))
+            return getRoleQuestions(subteam, role).map(q => q.prompt)
+        })])
 
-        if (file.size > 10 * 1024 * 1024) {
-            return toast.error("Resume file is too large. Maximum size is 10MB.")
-        }
+        try {
+            const response = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/applications/${application._id}`, {
+                method: "PATCH",
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    rolePreferences: selectedRoles.map(role => ({
+                        role: role,
+                        subteamPk: roleToSubteamMap.get(role) || ""
+                    })),
+                    profile: profile,
+                    responses: Object.fromEntries(Object.entries(responses).filter(([question]) => activeQuestions.has(question))),
+                    responseKinds: getResponseKinds(),
+                    documents: attachments,
+                })
+            })
 
-        // Verify magic numbers (%PDF-)
-        const isActualPDF = await new Promise<boolean>((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = (e) => {
-                const arr = new Uint8Array(e.target?.result as ArrayBuffer).subarray(0, 5);
-                const header = String.fromCharCode(...arr);
-                resolve(header === "%PDF-");
-            };
-            reader.onerror = () => resolve(false);
-            reader.readAsArrayBuffer(file.slice(0, 5));
-        });
-
-        if (!isActualPDF) {
-            return toast.error("The uploaded file does not appear to be a valid PDF. Please check the file and try again.");
+            if (response.ok) {
+                toast.success("Application updated!")
+                navigate("/apply/applications")
+            } else {
+                const err = await response.json()
+                toast.error("Update failed", { description: err.message || err.error })
+            }
+        } catch {
+            toast.error("An error occurred while saving your changes.")
+        } finally {
+            setIsSubmitting(false)
         }
+    }
 
-        setIsUploading(true)
-        try {
-            // 1. Get presigned POST data
-            const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/resume/upload-url?fileName=${encodeURIComponent(file.name)}&contentType=${encodeURIComponent(file.type)}`, {
-                credentials: 'include'
+    // Parsing is best effort, the upload itself never waits on it
+    const handleResumeParsing = (file: File) => {
+        setIsParsingResume(true)
+        Promise.all([extractPDFText(file), fetchMajorCatalog()])
+            .then(([{ text, links }, catalog]) => {
+                const suggestions = buildProfileSuggestions(detectResumeDetails(text, links, catalog.majors), profileSchema, profile)
+                setResumeSuggestions(suggestions)
+                if (suggestions.length === 0)
+                    toast.info("No new profile details found in your resume")
             })
+            .catch((e) => console.error("Failed to read resume", e))
+            .finally(() => setIsParsingResume(false))
+    }
 
-            if (!res.ok) throw new Error("Failed to get upload URL")
+    const handleSuggestionResolved = (suggestion: ProfileSuggestion, accepted: boolean) => {
+        if (accepted)
+            setProfile((prev) => ({ ...prev, [suggestion.fieldId]: suggestion.value }))
+        setResumeSuggestions((prev) => prev.filter((el) => el.fieldId !== suggestion.fieldId))
+    }
 
-            const { uploadUrl, fields, key } = await res.json()
+    const handleFileUpload = async (field: ProfileField, e: React.ChangeEvent<HTMLInputElement>, onUploaded: (key: string) => void) => {
+        const file = e.target.files?.[0]
+        if (!file) return
 
-            // 2. Upload to S3 using FormData for Presigned POST
-            const formData = new FormData();
-            Object.entries(fields).forEach(([k, v]) => {
-                formData.append(k, v as string);
-            });
-            formData.append("file", file);
+        const maxSizeMB = field.validation?.maxSizeMB ?? 10
+        if (file.size > maxSizeMB * 1024 * 1024) {
+            return toast.error(`${field.label} is too large. Maximum size is ${maxSizeMB}MB.`)
+        }
 
-            const uploadRes = await fetch(uploadUrl, {
-                method: "POST",
-                body: formData
-            })
+        const accepted = field.validation?.accept?.split(",").map(ext => ext.trim().toLowerCase()).filter(Boolean) ?? []
+        if (accepted.length > 0 && !accepted.some(ext => file.name.toLowerCase().endsWith(ext) || file.type === ext)) {
+            return toast.error(`Please upload a ${accepted.join(", ")} file.`)
+        }
 
-            if (!uploadRes.ok) throw new Error("Failed to upload to S3")
+        if (accepted.includes(".pdf") && !(await isPDFFile(file))) {
+            return toast.error("The uploaded file does not appear to be a valid PDF. Please check the file and try again.");
+        }
 
-            // 3. Update profile state and persist to backend
-            const updatedProfile = { ...profile, resumeUrl: key };
-            setProfile(updatedProfile);
-            onProfileUpdate(updatedProfile);
+        if (accepted.includes(".pdf") && /resume/i.test(`${field.id} ${field.label}`)) {
+            handleResumeParsing(file)
+        }
 
-            // 4. Persist to backend without blocking UI
-            fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/profile`, {
-                method: "POST",
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify({ resumeUrl: key })
-            }).catch(e => console.error("Failed to persist resume URL", e));
+        setUploadingFieldId(field.id)
 
-            toast.success("Resume uploaded successfully")
+        try {
+            const key = await uploadApplicantFile(file, field.id)
+            onUploaded(key)
+            toast.success(`${field.label} uploaded successfully`)
         } catch (error) {
             console.error(error)
-            toast.error("Failed to upload resume")
+            toast.error(`Failed to upload ${field.label.toLowerCase()}`)
         } finally {
-            setIsUploading(false)
+            setUploadingFieldId(null)
         }
     }
 
+    const handleProfileFileUploaded = (field: ProfileField, key: string) => {
+        // Update profile state and persist to backend
+        const updatedProfile = { ...profile, [field.id]: key };
+        setProfile(updatedProfile);
+        onProfileUpdate(updatedProfile);
+
+        // Persist to backend without blocking UI
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/profile`, {
+            method: "POST",
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ [field.id]: key })
+        }).catch(e => console.error(`Failed to persist ${field.id}`, e));
+    }
+
     return (
         <div className='flex flex-col max-w-5xl mx-auto w-full pb-12 px-4'>
+            <AlertDialog open={leaveDialogOpen} onOpenChange={setLeaveDialogOpen}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Leave with unsaved changes?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {draftStatus === "local"
+                                ? "We couldn't reach the server, so your latest edits are only saved on this device. They'll sync the next time you open this application here."
+                                : "Your latest edits are still being saved. If you leave now, they'll finish saving in the background."}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => navigate("../")}>Leave Anyway</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
             {/* Navigation and Title */}
             <div className="flex flex-col gap-6 py-6 animate-in fade-in slide-in-from-top-4 duration-500">
-                <Button className='max-w-max h-8 text-muted-foreground hover:text-foreground' onClick={() => navigate("../")} variant="ghost" size="sm">
+                <Button className='max-w-max h-8 text-muted-foreground hover:text-foreground' onClick={handleBack} variant="ghost" size="sm">
                     <ChevronLeftIcon className="h-4 w-4 mr-1" />
-                    Back to Open Roles
+                    {editing ? "Back to My Applications" : "Back to Open Roles"}
                 </Button>
 
                 <div className="flex flex-col gap-2">
                     <h1 className='text-4xl font-extrabold tracking-tight text-foreground'>{teamData?.teamInfo.friendlyName}</h1>
                     <div className="flex items-center gap-2">
-                        <span className="text-muted-foreground text-sm font-medium">Application Form</span>
+                        <span className="text-muted-foreground text-sm font-medium">{editing ? "Edit Application" : "Application Form"}</span>
                     </div>
                 </div>
             </div>
@@ -998,10 +2215,16 @@ const ATSApplyPage = ({
                         </CardHeader>
                         <CardContent>
                             <RolePreferenceSelector
-                                allRoles={allRoles}
+                                allRoles={openRoles}
                                 selectedRoles={selectedRoles}
                                 onChange={setSelectedRoles}
                             />
+                            {selectedRoles.some(role => closedRoles.includes(role)) && (
+                                <p role="alert" className="text-xs text-destructive font-bold flex items-center gap-1.5 mt-3">
+                                    <AlarmClockIcon className="h-3.5 w-3.5" />
+                                    Applications closed for {selectedRoles.filter(role => closedRoles.includes(role)).join(", ")}. Remove them to submit.
+                                </p>
+                            )}
                         </CardContent>
                     </Card>
 
@@ -1018,119 +2241,38 @@ const ATSApplyPage = ({
                             <CardDescription className="text-xs"></CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-6">
-                            {/* Resume Upload - Simplified and moved to top */}
-                            <div className="space-y-2">
-                                <div className="flex items-center">
-                                    <Label htmlFor="resumeUrl" className="text-sm font-bold flex items-center gap-1.5 text-foreground/80">
-                                        Resume (PDF)
-                                        <span className="text-destructive font-bold">*</span>
-                                    </Label>
-                                    {profile.resumeUrl && (
-                                        <div className="flex ml-4 items-center gap-1.5 text-[11px] text-green-600 font-bold">
-                                            <CheckCircle2 className="h-3.5 w-3.5" />
-                                            Uploaded
-                                        </div>
-                                    )}
-                                </div>
-
-                                <div className="flex flex-col gap-3">
-                                    <div className="flex items-center gap-3">
-                                        <Input
-                                            id="resumeUrl"
-                                            type="file"
-                                            accept=".pdf"
-                                            onChange={handleResumeUpload}
-                                            disabled={isUploading}
-                                            className="hidden"
-                                        />
-                                        <Button
-                                            type="button"
-                                            variant="outline"
-                                            size="sm"
-                                            disabled={isUploading}
-                                            onClick={() => document.getElementById("resumeUrl")?.click()}
-                                            className="font-bold bg-background h-9 px-4"
-                                        >
-                                            {isUploading ? <Loader2Icon className="animate-spin mr-2 h-4 w-4" /> : <UploadCloud className="mr-2 h-4 w-4 text-primary" />}
-                                            {profile.resumeUrl ? "Update Resume" : "Upload Resume"}
-                                        </Button>
-
-                                        {profile.resumeUrl && (
-                                            <Button variant="link" size="sm" asChild className="h-9 px-0 text-primary font-bold">
-                                                <a
-                                                    href={profile.resumeUrl.startsWith("http") ? profile.resumeUrl : `${PEOPLEPORTAL_SERVER_ENDPOINT}/api/ats/resume/download?key=${encodeURIComponent(profile.resumeUrl)}`}
-                                                    target="_blank"
-                                                    rel="noopener noreferrer"
-                                                    className="flex items-center gap-1.5"
-                                                >
-                                                    View Uploaded Resume
-                                                    <ExternalLinkIcon className="h-3.5 w-3.5" />
-                                                </a>
-                                            </Button>
-                                        )}
-                                    </div>
-                                </div>
-                            </div>
-
-                            {/* Other Personal Info Fields */}
-                            {PERSONAL_INFO_FIELDS.filter(f => f.id !== "resumeUrl").map((field) => {
-                                const fieldValue = profile[field.id] ?? "";
-
-                                return (
-                                    <div key={field.id} className="space-y-2">
-                                        <Label htmlFor={field.id} className="text-sm font-bold flex items-center gap-1.5 text-foreground/80">
-                                            {field.label}
-                                            {field.required && <span className="text-destructive font-bold">*</span>}
-                                        </Label>
-
-                                        {field.type === "select" ? (
-                                            <Select
-                                                value={fieldValue.toString()}
-                                                onValueChange={(value) => setProfile((prev) => ({ ...prev, [field.id]: value }))}
-                                            >
-                                                <SelectTrigger className="w-full bg-background">
-                                                    <SelectValue placeholder="Select an option" />
-                                                </SelectTrigger>
-                                                <SelectContent>
-                                                    {field.options?.map((option) => (
-                                                        <SelectItem key={option} value={option}>{option}</SelectItem>
-                                                    ))}
-                                                </SelectContent>
-                                            </Select>
-                                        ) : field.multiline ? (
-                                            <div className="space-y-2">
-                                                <Textarea
-                                                    id={field.id}
-                                                    placeholder={field.placeholder ?? "Enter your answer"}
-                                                    value={fieldValue.toString()}
-                                                    className="min-h-[140px] resize-none focus-visible:ring-primary shadow-sm bg-background mt-2"
-                                                    onChange={(e) => setProfile((prev) => ({ ...prev, [field.id]: e.target.value }))}
-                                                />
-                                                {field.id === "whyAppDev" && (
-                                                    <div className="flex justify-between items-center px-1">
-                                                        <span className="text-[10px] text-muted-foreground italic">Tell us what motivates you to join.</span>
-                                                        <Badge variant="outline" className={`text-[10px] tabular-nums font-bold border-none bg-muted/30 ${((fieldValue.toString().split(/\s+/).filter(Boolean).length || 0) > 200) ? 'text-destructive' : 'text-muted-foreground'}`}>
-                                                            {fieldValue.toString().split(/\s+/).filter(Boolean).length || 0} / 200 words
-                                                        </Badge>
-                                                    </div>
-                                                )}
-                                            </div>
-                                        ) : (
-                                            <Input
-                                                id={field.id}
-                                                type={field.type ?? "text"}
-                                                placeholder={field.placeholder ?? "Enter your answer"}
-                                                value={fieldValue.toString()}
-                                                className="focus-visible:ring-primary shadow-sm bg-background mt-2"
-                                                onChange={(e) => setProfile((prev) => ({ ...prev, [field.id]: e.target.value }))}
-                                            />
-                                        )}
-                                    </div>
-                                );
-                            })}
+                            {(isParsingResume || resumeSuggestions.length > 0) && (
+                                <ResumeSuggestionsPanel
+                                    isParsing={isParsingResume}
+                                    suggestions={resumeSuggestions}
+                                    onResolve={handleSuggestionResolved}
+                                    onDismissAll={() => setResumeSuggestions([])}
+                                />
+                            )}
+
+                            {profileSchema.map((field) => (
+                                <ProfileFieldInput
+                                    key={field.id}
+                                    field={field}
+                                    value={profile[field.id] ?? ""}
+                                    onChange={(value) => setProfile((prev) => ({ ...prev, [field.id]: value }))}
+                                    onFileSelected={(e) => handleFileUpload(field, e, (key) => handleProfileFileUploaded(field, key))}
+                                    isUploading={uploadingFieldId === field.id}
+                                />
+                            ))}
                         </CardContent>
                     </Card>
 
+                    {/* Documents */}
+                    <DocumentLibraryCard
+                        documents={documents}
+                        onDocumentsUpdate={onDocumentsUpdate}
+                        pinnedDocuments={editingApplication?.documents}
+                        attachments={attachments}
+                        onAttachmentsChange={setAttachments}
+                        onResumeSelected={handleResumeParsing}
+                    />
+
                     {/* Question Sections */}
                     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
                         {/* Team Interest */}
@@ -1168,30 +2310,30 @@ const ATSApplyPage = ({
                                 {teamData && selectedRoles.map(role => {
                                     const subteamPk = roleToSubteamMap.get(role)!
                                     const subteam = teamData.recruitingSubteams.find(s => s.subteamPk === subteamPk)
-                                    const roleQuestions = subteam?.roleSpecificQuestions[role] || []
+                                    const roleQuestions = getRoleQuestions(subteam, role)
 
                                     if (roleQuestions.length === 0) return null
 
                                     return (
-                                        <>
-                                            {roleQuestions.map((question, idx) => (
-                                                <div key={idx} className="space-y-2">
-                                                    <Label htmlFor={`q-${role}-${idx}`} className="text-sm font-bold flex items-center gap-1.5 text-foreground/80">
-                                                        {question}
-                                                        <span className="text-destructive font-bold">*</span>
-                                                    </Label>
-                                                    <Textarea
-                                                        id={`q-${role}-${idx}`}
-                                                        placeholder="Enter your response..."
-                                                        className="min-h-[120px] resize-none shadow-sm bg-background focus-visible:ring-primary"
-                                                        value={responses[question] ?? ""}
-                                                        onChange={(e) =>
-                                                            setResponses((prev) => ({ ...prev, [question]: e.target.value }))
+                                        <React.Fragment key={role}>
+                                            {roleQuestions.map((question, idx) => {
+                                                const field = toProfileField(question, getRoleQuestionId(role, idx))
+                                                return (
+                                                    <ProfileFieldInput
+                                                        key={field.id}
+                                                        field={field}
+                                                        value={responses[question.prompt] ?? ""}
+                                                        onChange={(value) =>
+                                                            setResponses((prev) => ({ ...prev, [question.prompt]: value }))
                                                         }
+                                                        onFileSelected={(e) =>
+                                                            handleFileUpload(field, e, (key) => setResponses((prev) => ({ ...prev, [question.prompt]: key })))
+                                                        }
+                                                        isUploading={uploadingFieldId === field.id}
                                                     />
-                                                </div>
-                                            ))}
-                                        </>
+                                                )
+                                            })}
+                                        </React.Fragment>
                                     )
                                 })}
                             </CardContent>
@@ -1211,7 +2353,7 @@ const ATSApplyPage = ({
                             <ul className="space-y-3">
                                 {[
                                     "Uploaded your most recent resume",
-                                    "LinkedIn/GitHub links are working",
+                                    "Profile links are working",
                                     "Responses address the specific roles"
                                 ].map((tip, i) => (
                                     <li key={i} className="flex gap-2 text-[11px] text-muted-foreground leading-snug">
@@ -1255,18 +2397,42 @@ const ATSApplyPage = ({
                                     </div>
                                 </div>
 
+                                {isTeamClosed ? (
+                                    <div className="text-[11px] mt-4 text-destructive font-bold flex items-center gap-1.5 bg-destructive/5 p-2 rounded-lg border border-destructive/10">
+                                        <AlarmClockIcon className="h-3 w-3" />
+                                        Applications for this team are closed
+                                    </div>
+                                ) : closesAt && (
+                                    <div
+                                        aria-live="polite"
+                                        className={`text-[11px] mt-4 font-bold flex items-center gap-1.5 p-2 rounded-lg border ${isClosingSoon ? 'text-destructive bg-destructive/5 border-destructive/10' : 'text-muted-foreground bg-muted/30 border-border/40'}`}
+                                    >
+                                        <AlarmClockIcon className="h-3 w-3" />
+                                        {isClosingSoon ? "Closing soon: " : "Applications close in "}
+                                        {formatCountdown(Date.parse(closesAt) - now)}
+                                        <span className="font-medium ml-auto">{new Date(closesAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</span>
+                                    </div>
+                                )}
+
                                 <div className="pt-6">
                                     <Button
                                         onClick={handleApply}
-                                        disabled={isSubmitting || selectedRoles.length === 0}
+                                        disabled={isSubmitting || selectedRoles.length === 0 || isTeamClosed}
                                         className="w-full h-11 text-sm font-bold shadow-md shadow-primary/20 hover:shadow-primary/30 transition-all active:scale-[0.98]"
                                     >
                                         {isSubmitting ? <Loader2Icon className="animate-spin mr-2 h-4 w-4" /> : <SendIcon className="mr-2 h-4 w-4" />}
-                                        Submit Application
+                                        {editing ? "Save Changes" : "Submit Application"}
                                     </Button>
                                     <p className="text-[10px] text-center text-muted-foreground mt-3 leading-relaxed">
                                         We'll get back to you within 10 days!
                                     </p>
+                                    {draftStatus !== "idle" && (
+                                        <p aria-live="polite" className="text-[10px] text-center text-muted-foreground mt-1 flex items-center justify-center gap-1">
+                                            {draftStatus === "saving" && <><Loader2Icon className="h-3 w-3 animate-spin" /> Saving draft...</>}
+                                            {draftStatus === "saved" && <><CloudIcon className="h-3 w-3" /> Draft saved {lastSavedAt && formatDistanceToNow(lastSavedAt, { addSuffix: true })}</>}
+                                            {draftStatus === "local" && <><CloudOffIcon className="h-3 w-3 text-destructive" /> Saved on this device only</>}
+                                        </p>
+                                    )}
                                 </div>
                             </CardContent>
                         </Card>
@@ -1281,6 +2447,60 @@ const ATSApplyList = ({ applications }: { applications: ATSApplication[] }) => {
     const navigate = useNavigate()
     const [teams, setTeams] = React.useState<OpenATSTeam[]>([])
     const [isLoading, setIsLoading] = React.useState(true)
+    const [searchParams, setSearchParams] = useSearchParams()
+    const now = useNow()
+
+    const query = searchParams.get("q") ?? ""
+    const status = (searchParams.get("status") ?? "all") as OpenRolesStatus
+    const season = searchParams.get("season") ?? "all"
+    const roleKeyword = searchParams.get("role") ?? ""
+    const sort = (searchParams.get("sort") ?? "default") as OpenRolesSort
+    const hasFilters = !!query || status !== "all" || season !== "all" || !!roleKeyword
+
+    // Defaults are dropped so an unfiltered view keeps a clean /apply URL
+    const updateFilter = (key: string, value: string, defaultValue = "") => {
+        setSearchParams((prev) => {
+            const next = new URLSearchParams(prev)
+            if (value === defaultValue) next.delete(key)
+            else next.set(key, value)
+            return next
+        }, { replace: true })
+    }
+
+    const clearFilters = () => {
+        setSearchParams((prev) => {
+            const next = new URLSearchParams(prev)
+            for (const key of ["q", "status", "season", "role"]) next.delete(key)
+            return next
+        }, { replace: true })
+    }
+
+    const seasons = React.useMemo(() => [...new Set(teams.map(team => team.teamInfo.seasonText).filter(Boolean))].sort(), [teams])
+
+    const visibleTeams = React.useMemo(() => {
+        const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+        const roleTerm = roleKeyword.trim().toLowerCase()
+
+        const filtered = teams.filter((team) => {
+            const roles = getTeamRoles(team, now)
+            const isRecruiting = roles.length > 0
+
+            if (status === "recruiting" && !isRecruiting) return false
+            if (status === "closed" && isRecruiting) return false
+            if (season !== "all" && team.teamInfo.seasonText !== season) return false
+            if (roleTerm && !roles.some(role => role.toLowerCase().includes(roleTerm))) return false
+
+            // Every search word has to appear somewhere, in any field
+            const haystack = [team.teamInfo.friendlyName, team.teamInfo.description, ...roles].join(" ").toLowerCase()
+            return terms.every(term => haystack.includes(term))
+        })
+
+        if (sort === "roles")
+            return [...filtered].sort((a, b) => getTeamRoles(b, now).length - getTeamRoles(a, now).length)
+        if (sort === "recent")
+            return [...filtered].sort((a, b) => getTeamOpenedAt(b).localeCompare(getTeamOpenedAt(a)))
+        return filtered
+    }, [teams, query, status, season, roleKeyword, sort, now])
 
     React.useEffect(() => {
         setIsLoading(true)
@@ -1308,11 +2528,95 @@ const ATSApplyList = ({ applications }: { applications: ATSApplication[] }) => {
                 <p className="text-muted-foreground">Join one of our world-class teams and build something amazing.</p>
             </div>
 
+            {/* Discovery Bar */}
+            <div className="flex flex-col gap-3 p-4 rounded-2xl border border-border/50 bg-card shadow-sm">
+                <div className="relative">
+                    <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        type="search"
+                        aria-label="Search teams and roles"
+                        placeholder="Search teams, descriptions and roles"
+                        value={query}
+                        className="pl-9 bg-background"
+                        onChange={(e) => updateFilter("q", e.target.value)}
+                    />
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <Select value={status} onValueChange={(value) => updateFilter("status", value, "all")}>
+                        <SelectTrigger className="w-full bg-background" aria-label="Recruiting status">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All Teams</SelectItem>
+                            <SelectItem value="recruiting">Recruiting Now</SelectItem>
+                            <SelectItem value="closed">Not Recruiting</SelectItem>
+                        </SelectContent>
+                    </Select>
+
+                    <Select value={season} onValueChange={(value) => updateFilter("season", value, "all")}>
+                        <SelectTrigger className="w-full bg-background" aria-label="Season">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All Seasons</SelectItem>
+                            {seasons.map((seasonText) => (
+                                <SelectItem key={seasonText} value={seasonText}>{seasonText}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+
+                    <Input
+                        aria-label="Role keyword"
+                        placeholder="Role keyword, e.g. Design"
+                        value={roleKeyword}
+                        className="bg-background"
+                        onChange={(e) => updateFilter("role", e.target.value)}
+                    />
+
+                    <Select value={sort} onValueChange={(value) => updateFilter("sort", value, "default")}>
+                        <SelectTrigger className="w-full bg-background" aria-label="Sort teams">
+                            <ArrowUpDownIcon className="h-4 w-4 text-muted-foreground" />
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(OPEN_ROLES_SORT_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="flex items-center justify-between text-xs text-muted-foreground" aria-live="polite">
+                    <span>Showing {visibleTeams.length} of {teams.length} {teams.length === 1 ? "team" : "teams"}</span>
+                    {hasFilters && (
+                        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={clearFilters}>Clear Filters</Button>
+                    )}
+                </div>
+            </div>
+
+            {visibleTeams.length === 0 && (
+                <div className="flex flex-col items-center text-center py-12 gap-3">
+                    <SearchIcon className="h-8 w-8 text-muted-foreground/50" />
+                    <p className="font-bold">No teams match your filters</p>
+                    <p className="text-sm text-muted-foreground">Try a different keyword or clear the filters to see every team.</p>
+                    {hasFilters && <Button variant="outline" onClick={clearFilters}>Clear Filters</Button>}
+                </div>
+            )}
+
             <Accordion type="single" collapsible className="w-full space-y-4">
-                {teams.map((team) => {
-                    const totalRoles = team.recruitingSubteamPks.reduce((acc, pk) => acc + (team.subteamInfo[pk]?.recruitmentInfo?.roles.length || 0), 0)
-                    const isRecruiting = team.recruitingSubteamPks.length > 0
+                {visibleTeams.map((team) => {
+                    const totalRoles = getTeamRoles(team, now).length
+                    const isRecruiting = totalRoles > 0
                     const hasApplied = applications.some(app => app.teamPk === team.teamPk)
+                    const windows: RecruitmentWindow[] = team.recruitingSubteamPks.map(pk => team.subteamInfo[pk]?.recruitmentInfo ?? {})
+                    const closesAt = soonestClosingAt(windows, now)
+                    const isClosingSoon = !!closesAt && getRecruitmentWindowState({ closesAt }, now) === "closing-soon"
+                    // Teams with nothing open yet show when the earliest window starts
+                    const opensAt = isRecruiting ? undefined : windows
+                        .filter(el => getRecruitmentWindowState(el, now) === "upcoming")
+                        .map(el => el.opensAt!)
+                        .sort((a, b) => Date.parse(a) - Date.parse(b))[0]
 
                     return (
                         <AccordionItem
@@ -1336,6 +2640,12 @@ const ATSApplyList = ({ applications }: { applications: ATSApplication[] }) => {
                                                     Applied
                                                 </Badge>
                                             )}
+                                            {isClosingSoon && !hasApplied && (
+                                                <Badge className="bg-destructive/10 text-destructive border-none font-bold text-[10px] h-5 px-1.5 flex gap-1">
+                                                    <AlarmClockIcon className="h-3 w-3" />
+                                                    Closing Soon
+                                                </Badge>
+                                            )}
                                         </div>
                                         <p className="text-muted-foreground text-md font-medium line-clamp-1 pr-4">
                                             {team.teamInfo.description}
@@ -1348,7 +2658,14 @@ const ATSApplyList = ({ applications }: { applications: ATSApplication[] }) => {
                                                 <Badge variant="secondary" className="font-bold">
                                                     {totalRoles} {totalRoles === 1 ? "Role" : "Roles"} Available
                                                 </Badge>
+                                                {closesAt && (
+                                                    <span className={`text-[11px] mt-1 font-medium ${isClosingSoon ? 'text-destructive' : 'text-muted-foreground'}`}>
+                                                        Closes in {formatCountdown(Date.parse(closesAt) - now)}
+                                                    </span>
+                                                )}
                                             </div>
+                                        ) : opensAt ? (
+                                            <Badge variant="outline" className="text-muted-foreground">Opens in {formatCountdown(Date.parse(opensAt) - now)}</Badge>
                                         ) : (
                                             <Badge variant="outline" className="text-muted-foreground">Not Recruiting</Badge>
                                         )}
@@ -1360,9 +2677,7 @@ const ATSApplyList = ({ applications }: { applications: ATSApplication[] }) => {
                                     <div className='flex-grow ml-[3.5rem]'>
                                         <p className='text-muted-foreground'>Available Roles</p>
                                         <div className='flex flex-wrap gap-1.5 mt-2'>
-                                            {team.recruitingSubteamPks.flatMap(pk =>
-                                                team.subteamInfo[pk]?.recruitmentInfo?.roles || []
-                                            ).map((role, idx) => (
+                                            {getTeamRoles(team, now).map((role, idx) => (
                                                 <Badge variant="secondary" key={idx}>
                                                     {role}
                                                 </Badge>
@@ -1375,6 +2690,7 @@ const ATSApplyList = ({ applications }: { applications: ATSApplication[] }) => {
                                         variant={hasApplied ? "outline" : "outline"}
                                         className={`self-end px-8 ${hasApplied ? 'w-full sm:w-auto border-dashed' : 'w-full sm:w-auto'}`}
                                         onClick={() => hasApplied ? navigate(`/apply/applications`) : navigate(`./${team.teamPk}`)}
+                                        disabled={!hasApplied && !isRecruiting}
                                     >
                                         {hasApplied ? "View Application" : `Apply to ${team.teamInfo.friendlyName}`}
                                         <ChevronLeftIcon className="h-4 w-4 rotate-180" />
@@ -18,6 +18,8 @@
 
 import { PEOPLEPORTAL_SERVER_ENDPOINT } from "@/commons/config"
 import { AppSidebar } from "@/components/app-sidebar"
+import { DashboardApplicantProfile } from "@/components/fabric/DashboardApplicantProfile"
+import { DashboardMyProfile } from "@/components/fabric/DashboardMyProfile"
 import { DashboardPeopleInfo } from "@/components/fabric/DashboardPeopleInfo"
 import { DashboardPeopleList } from "@/components/fabric/DashboardPeopleList"
 import { DashboardTeamInfo } from "@/components/fabric/DashboardTeamInfo"
@@ -67,12 +69,18 @@ const translateBreadcrumbPath = (path: string) => {
         case "recruitment":
             return "Recruitment Tracker"
 
+        case "applicantprofile":
+            return "Applicant Profile"
+
         case "platform":
             return "People Portal Platform"
 
         case "license":
             return "Licensing"
 
+        case "profile":
+            return "My Profile"
+
         default:
             return path
     }
@@ -86,7 +94,9 @@ interface BreadcrumbItem {
 export interface CorpUserInfo {
     name: string,
     avatar: string,
-    email: string
+    email: string,
+    /* Org Admins Manage Org-Wide Settings, ex. the Applicant Profile */
+    isAdmin?: boolean
 }
 
 export const CorpDashboard = () => {
@@ -181,12 +191,14 @@ export const CorpDashboard = () => {
                         <Route path="/" element={<Navigate to="/org/people" />} />
                         <Route path="/org" element={<Navigate to="/org/people" />} />
                         <Route path="/org/people" element={<DashboardPeopleList />} />
-                        <Route path="/org/people/:userPk" element={<DashboardPeopleInfo />} />
+                        <Route path="/org/people/:userPk" element={<DashboardPeopleInfo currentUserEmail={userInfo.email} />} />
                         <Route path="/org/teams" element={<DashboardTeamsList />} />
                         <Route path="/org/teams/:teamId" element={<DashboardTeamInfo />} />
                         <Route path="/org/teams/:teamId/recruitment" element={<DashboardTeamRecruitment />} />
                         <Route path="/org/teamrequests/:requestId" element={<OrgTeamRequestReview />} />
+                        <Route path="/profile" element={<DashboardMyProfile />} />
                         <Route path="/org/orgchart" element={<OrgChartVisualization />} />
+                        <Route path="/org/applicantprofile" element={<DashboardApplicantProfile readOnly={!userInfo.isAdmin} />} />
                         <Route path="/platform/license" element={<PlatformLicenseInfo />} />
                     </Routes>
                 </div>
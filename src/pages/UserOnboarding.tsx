@@ -18,85 +18,211 @@
 
 import { Link, Navigate, Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom'
 import logo from '../assets/logo.svg'
-import { CardDescription, CardTitle } from '@/components/ui/card'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { ORGANIZATION_NAME } from '@/commons/strings'
+import { ORGANIZATION_NAME, ORGANIZATION_WIKI_URL } from '@/commons/strings'
 import { Sidebar, SidebarContent, SidebarGroup, SidebarGroupContent, SidebarMenu, SidebarMenuButton, SidebarMenuItem, SidebarProvider } from '@/components/ui/sidebar'
-import { Check, CheckCircle2Icon, ChevronsUpDown, Loader2Icon, Lock, MessagesSquare, Minus, Plus, Signature, TriangleAlertIcon, UploadCloudIcon, User2Icon, XCircleIcon } from 'lucide-react'
+import { BanIcon, BookOpenIcon, CalendarIcon, CalendarPlusIcon, ExternalLinkIcon, PartyPopperIcon, UsersIcon, WrenchIcon, CheckCircle2Icon, CircleCheckBigIcon, DownloadIcon, KeyRoundIcon, Loader2Icon, Lock, MailIcon, MessagesSquare, Minus, RotateCwIcon, SearchXIcon, SendIcon, ShieldCheckIcon, Signature, SmartphoneIcon, TimerOffIcon, TriangleAlertIcon, User2Icon, WifiOffIcon, XCircleIcon } from 'lucide-react'
 import React from 'react'
+import type { LucideIcon } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { toast } from "sonner"
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { PhoneInput } from '@/components/ui/phone-input'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { cn } from '@/lib/utils'
-
-import {
-    Command,
-    CommandEmpty,
-    CommandGroup,
-    CommandInput,
-    CommandItem,
-    CommandList,
-} from "@/components/ui/command"
 import { PEOPLEPORTAL_SERVER_ENDPOINT } from '@/commons/config'
 import zxcvbn from 'zxcvbn'
+import { QRCodeSVG } from 'qrcode.react'
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp'
+import { getPasswordPolicyRequirements, isPasswordBreached, DEFAULT_PASSWORD_POLICY, type PasswordPolicy, type PasswordRequirement } from '@/lib/password'
 import { Progress } from '@/components/ui/progress'
-import Cropper, { type Area, type Point } from 'react-easy-crop'
-import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
-import imageCompression from 'browser-image-compression';
-import { Slider } from '@/components/ui/slider'
+import { AvatarUploader } from '@/components/fragments/AvatarUploader'
+import { fetchAvatarPreviewUrl } from '@/lib/avatar'
+import { SignaturePad } from '@/components/ui/signature-pad'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { fetchMajorCatalog, type MajorCatalog, type UMDApiMajorListResponse } from '@/lib/majors'
+import { MajorCatalogPicker } from '@/components/fragments/MajorCatalogPicker'
+import { downloadCalendarInvite, type CalendarEvent } from '@/lib/calendar'
+import { format } from 'date-fns'
+import { downloadSignedAgreementSummary, fetchLegalDocument, renderPDFPages, type AgreementSignature, type LegalDocument } from '@/lib/legal'
+
+interface OnboardingChecklistItem {
+    name: string,
+    status: boolean,
+    /* Optional Items show as Skipped and don't Block Finishing */
+    optional?: boolean
+}
+
+interface OnboardingStageDefinition {
+    path: string,
+    title: string,
+    icon: LucideIcon,
+    checklistName?: string,
+    /* Overrides the Single checklistName Row on the Completion Screen */
+    checklistItems?: () => OnboardingChecklistItem[],
+    isComplete: () => boolean,
+    isSubmittable?: () => boolean,
+    element: React.ReactElement
+}
+
+interface OnboardingMobileStepperProps {
+    stages: OnboardingStageDefinition[],
+    currentStep: number,
+    basePath: string
+}
 
 interface CompleteSetupStageProps {
-    stages: { name: string, status: boolean }[],
+    stages: OnboardingChecklistItem[],
     stepComplete: () => void,
+    submissionError?: string,
+    onDownloadSignedSummaries?: () => void,
     isLoading: boolean
 }
 
 interface SlackJoinStageProps {
+    isPreview: boolean,
     email: string,
     slackInviteLink: string,
     defaultVerified: boolean,
     stepComplete: (joined: boolean) => void
 }
 
+/* Returned by a Successful Submission, Lists what the New Member was Granted */
+interface APIOnboardingHandoff {
+    grantedTools?: { friendlyName: string, description: string, url?: string }[];
+    slackChannel?: { name: string, url: string };
+    firstMeeting?: CalendarEvent;
+}
+
+interface OnboardingHandoffStageProps {
+    firstName: string,
+    teamName: string,
+    roleTitle: string,
+    subteamPk: string,
+    handoff: APIOnboardingHandoff
+}
+
+type SlackVerificationStatus = "idle" | "polling" | "verified" | "not_joined" | "email_mismatch" | "error"
+
+/* Returned with a Non-OK Status by the Slack Verification API */
+interface APISlackVerifyError {
+    code: "SLACK_NOT_JOINED" | "SLACK_EMAIL_MISMATCH" | string;
+    message?: string;
+}
+
 interface CreatePasswordStageProps {
     name: string,
     email: string,
     teamName: string,
     role: string,
+    policy: PasswordPolicy,
     defaultPassword: string,
+    serverError?: string,
     stepComplete: (createdPassword: string) => void
 }
 
+type MFAMethod = "webauthn" | "totp"
+
+interface SecureAccountStageProps {
+    isPreview: boolean,
+    onboardId?: string,
+    required: boolean,
+    defaultMethod?: MFAMethod,
+    stepComplete: (method?: MFAMethod) => void
+}
+
+interface APITOTPEnrollment {
+    secret: string,
+    otpauthUri: string
+}
+
+/* Answers on the Legal Stage before it's Signed */
+interface LegalStageProgress {
+    acceptedDocuments: string[],
+    typedName: string
+}
+
 interface ProprietaryInformationStageProps {
-    defaultSigned: boolean,
-    stepComplete: (status: boolean) => void
+    documents: LegalDocument[],
+    signerName: string,
+    defaultSignatures: AgreementSignature[],
+    defaultProgress?: LegalStageProgress,
+    onProgressChange: (progress: LegalStageProgress) => void,
+    serverError?: string,
+    stepComplete: (signatures: AgreementSignature[]) => void
+}
+
+interface LegalDocumentCardProps {
+    document: LegalDocument,
+    accepted: boolean,
+    onAcceptedChange: (accepted: boolean) => void,
+    /* SHA-256 of the Bytes the Pages were Drawn from */
+    onHashed: (hash: string) => void
 }
 
 interface PersonalInfoData {
     avatarKey?: string,
     profileUrl: string,
-    major: UMDApiMajorListResponse,
+    majors: UMDApiMajorListResponse[],
+    minors: UMDApiMajorListResponse[],
     expectedGrad: string,
     phoneNumber: string
 }
 
 interface PersonalInfoStageProps {
+    isPreview: boolean,
     onboardId?: string,
     defaultData: PersonalInfoData | undefined,
+    serverErrors: SubmissionFieldErrors,
+    onChange: (data: PersonalInfoData) => void,
     stepComplete: (data: PersonalInfoData) => void
 }
 
-interface UMDApiMajorListResponse {
-    college: string,
-    major_id: string,
-    name: string,
-    url: string
+type InviteUnavailableReason = "expired" | "redeemed" | "revoked" | "notfound" | "error"
+
+/* Returned with a 404 or 410 when the Invite can't be Used */
+interface APIInviteUnavailable {
+    reason: InviteUnavailableReason;
+    teamName?: string;
+    inviterName?: string;
+    inviterEmail?: string;
+}
+
+interface InviteUnavailableScreenProps {
+    isPreview: boolean,
+    invite: APIInviteUnavailable,
+    onboardId?: string,
+    onRetry: () => void
+}
+
+/* Field Name to the Server's Validation Message for it */
+type SubmissionFieldErrors = { [field: string]: string }
+
+interface APISubmissionError {
+    message?: string;
+    errors?: { field: string, message: string }[];
+}
+
+/* Everything except the Password is Saved, it's Re-entered on Resume */
+interface OnboardingDraft {
+    currentStep: string;
+    passwordCreated: boolean;
+    mfaMethod?: MFAMethod;
+    mfaSkipped: boolean;
+    personalInfo?: Omit<PersonalInfoData, "profileUrl">;
+    legalSignatures: AgreementSignature[];
+    slackJoined: boolean;
+    submissionKey?: string;
+    /* Unfinished Answers, Restored as the Stage's Defaults until it's Completed */
+    inProgress?: {
+        personalInfo?: Omit<PersonalInfoData, "profileUrl">;
+        legal?: LegalStageProgress;
+    };
 }
 
 interface APIInviteInfo {
@@ -106,10 +232,93 @@ interface APIInviteInfo {
     subteamPk: string;
     teamName: string;
     inviterPk: number;
+    inviterName?: string;
+    inviterEmail?: string;
     expiresAt: Date;
     slackInviteLink: string;
+    passwordPolicy?: PasswordPolicy;
+    mfaRequired?: boolean;
+    onboardingFlow?: string[];
+    legalDocuments?: LegalDocument[];
+    draft?: OnboardingDraft;
+}
+
+/* Typing Settles for this Long before the Draft is Saved */
+const DRAFT_SAVE_DELAY_MS = 1500
+
+/*
+  Optional Stages shown when the Team has no Flow Configured. Password Creation
+  always runs first and Complete Setup always runs last, regardless of the Flow.
+  Account Security, when Present, always Directly Follows Password Creation.
+*/
+const DEFAULT_ONBOARDING_FLOW = ["security", "identity", "legal", "slack"]
+
+const INVITE_UNAVAILABLE_COPY: { [reason in InviteUnavailableReason]: { icon: LucideIcon, title: string, description: string } } = {
+    expired: {
+        icon: TimerOffIcon,
+        title: "This Invite has Expired",
+        description: "Invites are only valid for a limited time. Ask the team that invited you for a new one and we'll email you a fresh link."
+    },
+    redeemed: {
+        icon: CircleCheckBigIcon,
+        title: "You're Already Onboarded",
+        description: "This invite has already been used to create an account. Sign in to the People Portal with the email it was sent to."
+    },
+    revoked: {
+        icon: BanIcon,
+        title: "This Invite was Revoked",
+        description: "The team that invited you has withdrawn this invite. If you think this is a mistake, reach out to them directly."
+    },
+    notfound: {
+        icon: SearchXIcon,
+        title: "We Couldn't Find this Invite",
+        description: "Please check that you've opened the complete link from your invite email."
+    },
+    error: {
+        icon: WifiOffIcon,
+        title: "We Couldn't Load your Invite",
+        description: "Something went wrong while fetching your invite. Please check your connection and try again."
+    }
 }
 
+/* Backoff for Slack Membership Polling, Gives Up after Roughly Ten Minutes */
+const SLACK_POLL_INITIAL_DELAY_MS = 3000
+const SLACK_POLL_MAX_DELAY_MS = 30000
+const SLACK_POLL_MAX_ATTEMPTS = 30
+/* Marks Failed Checks worth Polling again, ex. Network Drops and 5xx Responses */
+const SLACK_CHECK_TRANSIENT = "transient"
+
+/* Submitted Fields, Mapped to the Stage that Collects them */
+const SUBMISSION_FIELD_STAGES: { [field: string]: string } = {
+    password: "loginsetup",
+    major: "identity",
+    additionalMajors: "identity",
+    minors: "identity",
+    expectedGrad: "identity",
+    phoneNumber: "identity",
+    avatarKey: "identity",
+    legalAgreements: "legal"
+}
+
+/* Signed when the Invite doesn't list its own Documents. Bump the Version whenever the PDF in /public Changes */
+const DEFAULT_LEGAL_DOCUMENTS: LegalDocument[] = [
+    {
+        id: "ip-agreement",
+        title: "Intellectual Property Agreement",
+        description: "This legal agreement helps us transfer the technology that you've helped develop directly to our sponsor companies.",
+        url: "/IntellectualPropertyAgreement.pdf",
+        version: "2026.1"
+    }
+]
+
+/* Stages Call this instead of their Network Side Effects while a Lead Previews the Invite */
+const showPreviewNotice = (action: string) => toast.info("This is a Preview", {
+    description: `${action} is skipped in a preview, the invitee does this for real.`
+})
+
+/* Lets any Stage Announce Validation Results through the Page's Live Region */
+const OnboardingAnnouncerContext = React.createContext<(message: string) => void>(() => { })
+
 export const UserOnboarding = () => {
     const params = useParams()
     const location = useLocation()
@@ -117,44 +326,196 @@ export const UserOnboarding = () => {
 
     const [isLoading, setIsLoading] = React.useState(false);
     const [inviteInfo, setInviteInfo] = React.useState<APIInviteInfo>()
+    const [inviteUnavailable, setInviteUnavailable] = React.useState<APIInviteUnavailable>()
+    const [onboardingHandoff, setOnboardingHandoff] = React.useState<APIOnboardingHandoff>()
+    const [liveAnnouncement, setLiveAnnouncement] = React.useState("")
+    const stageContainerRef = React.useRef<HTMLDivElement>(null)
+    const lastStagePathRef = React.useRef<string>(undefined)
     const slackJoinComplete = React.useRef(false);
-    const ipAgreementComplete = React.useRef(false);
+    const legalDocumentsRef = React.useRef(DEFAULT_LEGAL_DOCUMENTS);
+    const legalSignaturesRef = React.useRef<AgreementSignature[]>([]);
     const personalInfoRef = React.useRef<PersonalInfoData>(undefined);
+    const personalInfoProgressRef = React.useRef<PersonalInfoData>(undefined);
+    const legalProgressRef = React.useRef<LegalStageProgress>(undefined);
+    const draftSaveTimeoutRef = React.useRef<ReturnType<typeof setTimeout>>(undefined);
     const createdPasswordRef = React.useRef("");
+    const passwordCreatedRef = React.useRef(false);
+    const mfaMethodRef = React.useRef<MFAMethod>(undefined);
+    const mfaSkippedRef = React.useRef(false);
+    const mfaRequiredRef = React.useRef(false);
     const currentStepRef = React.useRef(0);
+    const onboardingFlowRef = React.useRef(DEFAULT_ONBOARDING_FLOW);
+
+    /* Sent as the Idempotency Key, so Retrying can't Create a Second Account */
+    const submissionKeyRef = React.useRef<string>(crypto.randomUUID());
+    const [submissionFieldErrors, setSubmissionFieldErrors] = React.useState<SubmissionFieldErrors>({});
+    const [submissionError, setSubmissionError] = React.useState<string>();
 
     const basePath = `/onboard/${params.onboardId}`
-    const ONBOARDING_FLOWLIST = [
-        { title: "Create Password", path: "loginsetup", icon: Lock },
-        { title: "Personal Information", path: "identity", icon: User2Icon },
-        { title: "Legal Agreements", path: "legal", icon: Signature },
-        { title: "Join App Dev Slack", path: "slack", icon: MessagesSquare },
-        { title: "Complete Setup", path: "complete", icon: CheckCircle2Icon }
-    ]
+
+    /* Team Leads Preview an Invite from the Dashboard, Nothing is Saved or Submitted */
+    const [isPreview] = React.useState(() => new URLSearchParams(location.search).has("preview"))
+
+    const saveDraft = (currentStep: string) => {
+        clearTimeout(draftSaveTimeoutRef.current)
+        if (isPreview)
+            return
+
+        const personalInfo = personalInfoRef.current
+        const personalInfoProgress = personalInfoProgressRef.current
+        const draft: OnboardingDraft = {
+            currentStep,
+            passwordCreated: passwordCreatedRef.current,
+            mfaMethod: mfaMethodRef.current,
+            mfaSkipped: mfaSkippedRef.current,
+            personalInfo: personalInfo && {
+                avatarKey: personalInfo.avatarKey,
+                majors: personalInfo.majors,
+                minors: personalInfo.minors,
+                expectedGrad: personalInfo.expectedGrad,
+                phoneNumber: personalInfo.phoneNumber
+            },
+            legalSignatures: legalSignaturesRef.current,
+            slackJoined: slackJoinComplete.current,
+            submissionKey: submissionKeyRef.current,
+            inProgress: {
+                personalInfo: personalInfoProgress && {
+                    avatarKey: personalInfoProgress.avatarKey,
+                    majors: personalInfoProgress.majors,
+                    minors: personalInfoProgress.minors,
+                    expectedGrad: personalInfoProgress.expectedGrad,
+                    phoneNumber: personalInfoProgress.phoneNumber
+                },
+                legal: legalProgressRef.current
+            }
+        }
+
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/invites/${params.onboardId}/draft`, {
+            method: "PUT",
+            headers: {
+                'Content-Type': 'application/json'
+            },
+
+            body: JSON.stringify(draft)
+        }).then((res) => {
+            if (!res.ok)
+                throw new Error(res.statusText)
+        }).catch((e) => {
+            /* Not Fatal, the User can still Finish in this Session */
+            console.error("Failed to Save Onboarding Draft", e)
+        })
+    }
+
+    const scheduleDraftSave = () => {
+        if (isPreview)
+            return
+
+        clearTimeout(draftSaveTimeoutRef.current)
+        draftSaveTimeoutRef.current = setTimeout(() => {
+            const currentStage = getOnboardingFlowList()[currentStepRef.current]
+            if (currentStage)
+                saveDraft(currentStage.path)
+        }, DRAFT_SAVE_DELAY_MS)
+    }
+
+    React.useEffect(() => {
+        return () => clearTimeout(draftSaveTimeoutRef.current)
+    }, [])
+
+    const restoreDraft = (draft: OnboardingDraft) => {
+        passwordCreatedRef.current = draft.passwordCreated
+        mfaMethodRef.current = draft.mfaMethod
+        mfaSkippedRef.current = draft.mfaSkipped ?? false
+        legalSignaturesRef.current = draft.legalSignatures ?? []
+        slackJoinComplete.current = draft.slackJoined
+        if (draft.submissionKey)
+            submissionKeyRef.current = draft.submissionKey
+        if (draft.personalInfo) {
+            personalInfoRef.current = {
+                ...draft.personalInfo,
+                profileUrl: ""
+            }
+        }
+        if (draft.inProgress?.personalInfo) {
+            personalInfoProgressRef.current = {
+                ...draft.inProgress.personalInfo,
+                profileUrl: ""
+            }
+        }
+        legalProgressRef.current = draft.inProgress?.legal
+
+        const flowList = getOnboardingFlowList()
+        const firstIncomplete = getFirstIncompleteStep(flowList)
+        const savedStep = flowList.findIndex((el) => el.path === draft.currentStep)
+        const resumeStep = (savedStep < 0) ? firstIncomplete : Math.min(savedStep, firstIncomplete)
+        currentStepRef.current = resumeStep
+        navigate(`${basePath}/${flowList[resumeStep].path}`, { replace: true })
+
+        if (draft.passwordCreated) {
+            toast.info("Welcome Back!", {
+                description: "We've restored your progress. For your security, please re-enter your password to continue."
+            })
+        }
+    }
 
     const handleNextStep = () => {
+        const flowList = getOnboardingFlowList()
         const nextStep = currentStepRef.current + 1
-        if (nextStep < ONBOARDING_FLOWLIST.length) {
+        if (nextStep < flowList.length) {
             currentStepRef.current = currentStepRef.current + 1
-            navigate(`${basePath}/${ONBOARDING_FLOWLIST[currentStepRef.current].path}`)
+            saveDraft(flowList[currentStepRef.current].path)
+            navigate(`${basePath}/${flowList[currentStepRef.current].path}`)
         } else {
             /* Steps are Complete! */
             handleFormSubmit()
         }
     }
 
+    const clearSubmissionFieldErrors = (stageId: string) => {
+        setSubmissionFieldErrors((existingErrors) => Object.fromEntries(
+            Object.entries(existingErrors).filter(([field]) => SUBMISSION_FIELD_STAGES[field] !== stageId)
+        ))
+    }
+
     const handlePasswordSetupComplete = (password: string) => {
+        clearSubmissionFieldErrors("loginsetup")
         createdPasswordRef.current = password
+        passwordCreatedRef.current = true
+        handleNextStep()
+    }
+
+    const handleSecureAccountComplete = (method?: MFAMethod) => {
+        mfaMethodRef.current = method
+        mfaSkippedRef.current = method == undefined
         handleNextStep()
     }
 
+    /* Only Saves when Something Changed, Stages Report their Answers on every Render */
+    const handlePersonalInfoChange = (personalInfo: PersonalInfoData) => {
+        if (JSON.stringify(personalInfo) === JSON.stringify(personalInfoProgressRef.current))
+            return
+
+        personalInfoProgressRef.current = personalInfo
+        scheduleDraftSave()
+    }
+
+    const handleLegalProgressChange = (progress: LegalStageProgress) => {
+        if (JSON.stringify(progress) === JSON.stringify(legalProgressRef.current))
+            return
+
+        legalProgressRef.current = progress
+        scheduleDraftSave()
+    }
+
     const handlePersonalInfoComplete = (personalInfo: PersonalInfoData) => {
+        clearSubmissionFieldErrors("identity")
         personalInfoRef.current = personalInfo
         handleNextStep()
     }
 
-    const handleIPAgreementComplete = (status: boolean) => {
-        ipAgreementComplete.current = status;
+    const handleLegalAgreementsComplete = (signatures: AgreementSignature[]) => {
+        clearSubmissionFieldErrors("legal")
+        legalSignaturesRef.current = signatures
         handleNextStep()
     }
 
@@ -165,38 +526,82 @@ export const UserOnboarding = () => {
     }
 
     const handleFormSubmit = () => {
+        if (isPreview) {
+            toast.info("This is a Preview", {
+                description: "The invitee finishes setup from this page. Nothing was submitted."
+            })
+
+            return
+        }
+
         /* Send a Request to Create the User in Authentik, Setup Accounts, etc. */
         setIsLoading(true)
+        setSubmissionError(undefined)
         fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/invites/${params.onboardId}`, {
             method: "PUT",
             headers: {
-                'Content-Type': 'application/json'
+                'Content-Type': 'application/json',
+                'Idempotency-Key': submissionKeyRef.current
             },
 
             body: JSON.stringify({
                 password: createdPasswordRef.current,
-                major: personalInfoRef.current?.major.name,
+                major: personalInfoRef.current?.majors[0]?.name,
+                additionalMajors: personalInfoRef.current?.majors.slice(1).map((el) => el.name),
+                minors: personalInfoRef.current?.minors.map((el) => el.name),
                 expectedGrad: personalInfoRef.current?.expectedGrad,
                 phoneNumber: personalInfoRef.current?.phoneNumber,
-                avatarKey: personalInfoRef.current?.avatarKey
+                avatarKey: personalInfoRef.current?.avatarKey,
+                legalAgreements: legalSignaturesRef.current,
+                mfaMethod: mfaMethodRef.current
             })
-        }).then((res) => {
+        }).then(async (res) => {
+            if (!res.ok) {
+                const error = await res.json().catch(() => undefined) as APISubmissionError | undefined
+                if (!handleSubmissionFieldErrors(error?.errors ?? []))
+                    throw new Error(error?.message ?? `HTTP ${res.status}: ${res.statusText}`)
+
+                setIsLoading(false)
+                return
+            }
+
+            /* Older Servers Reply without a Body, the Handoff still Shows the Basics */
+            const handoff = await res.json().catch(() => ({})) as APIOnboardingHandoff
             toast.success("Onboarding Complete!", {
-                description: "You'll automatically be redirected to the App Dev Club Portal."
+                description: `Welcome to the ${ORGANIZATION_NAME}!`
             })
 
-            setTimeout(() => {
-                setIsLoading(false)
-                navigate("/")
-            }, 1000)
-        }).catch(() => {
             setIsLoading(false)
+            setOnboardingHandoff(handoff)
+            navigate(`${basePath}/welcome`, { replace: true })
+        }).catch((e) => {
+            setIsLoading(false)
+            setSubmissionError(e.message)
             toast.error("Onboarding Failed!", {
-                description: "Please contact your team's leadership for assistance. Futher information can be found in your invite email."
+                description: "Your details are saved, please retry in a moment. If this keeps happening, contact your team's leadership."
             })
         })
     }
 
+    /* Sends the User to the Earliest Stage with a Bad Field, false if None can be Fixed there */
+    const handleSubmissionFieldErrors = (errors: { field: string, message: string }[]) => {
+        const flowList = getOnboardingFlowList()
+        const fixableErrors = errors.filter((error) => flowList.some((stage) => stage.path === SUBMISSION_FIELD_STAGES[error.field]))
+        if (fixableErrors.length == 0)
+            return false
+
+        const failedStep = Math.min(...fixableErrors.map((error) => flowList.findIndex((stage) => stage.path === SUBMISSION_FIELD_STAGES[error.field])))
+        setSubmissionFieldErrors(Object.fromEntries(fixableErrors.map((error) => [error.field, error.message])))
+        currentStepRef.current = failedStep
+        navigate(`${basePath}/${flowList[failedStep].path}`)
+
+        toast.error("Please Review your Information", {
+            description: `Some details on the ${flowList[failedStep].title} step need your attention.`
+        })
+
+        return true
+    }
+
     const [personalInfoProps, setPersonalInfoProps] = React.useState({
         stepComplete: handlePersonalInfoComplete
     })
@@ -206,6 +611,7 @@ export const UserOnboarding = () => {
         email: "Loading",
         teamName: "Loading",
         role: "Loading",
+        policy: DEFAULT_PASSWORD_POLICY,
         stepComplete: handlePasswordSetupComplete
     })
 
@@ -215,21 +621,53 @@ export const UserOnboarding = () => {
         stepComplete: handleSlackJoinComplete
     })
 
-    React.useEffect(() => {
+    const fetchInviteInfo = () => {
         /* Fetch the Onboarding Information using UUID */
-        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/invites/${params.onboardId}`)
+        setInviteUnavailable(undefined)
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/invites/${params.onboardId}${isPreview ? "?preview=true" : ""}`, {
+            credentials: isPreview ? "include" : "same-origin"
+        })
             .then(async (res) => {
+                if (res.status == 404 || res.status == 410) {
+                    const unavailable = await res.json().catch(() => undefined) as APIInviteUnavailable | undefined
+                    setInviteUnavailable(unavailable ?? { reason: "notfound" })
+                    return
+                }
+
                 if (res.status != 200)
                     throw new Error(res.statusText)
 
                 const inviteData = await res.json() as APIInviteInfo
+                if (!isPreview && new Date(inviteData.expiresAt) < new Date()) {
+                    setInviteUnavailable({
+                        reason: "expired",
+                        teamName: inviteData.teamName,
+                        inviterName: inviteData.inviterName,
+                        inviterEmail: inviteData.inviterEmail
+                    })
+
+                    return
+                }
+
+                if (inviteData.onboardingFlow)
+                    onboardingFlowRef.current = inviteData.onboardingFlow
+
+                mfaRequiredRef.current = inviteData.mfaRequired ?? false
+
+                if (inviteData.legalDocuments)
+                    legalDocumentsRef.current = inviteData.legalDocuments
+
+                if (inviteData.draft && !isPreview)
+                    restoreDraft(inviteData.draft)
+
                 setInviteInfo(inviteData)
                 setPasswordStageProps((existingProps) => ({
                     ...existingProps,
                     name: inviteData.inviteName,
                     email: inviteData.inviteEmail,
                     role: inviteData.roleTitle,
-                    teamName: inviteData.teamName
+                    teamName: inviteData.teamName,
+                    policy: inviteData.passwordPolicy ?? DEFAULT_PASSWORD_POLICY
                 }))
 
                 setSlackJoinProps((existingProps) => ({
@@ -240,36 +678,228 @@ export const UserOnboarding = () => {
             })
 
             .catch(() => {
-                toast.error("Failed to Fetch Invite Info!", {
-                    description: `Please check if the Invite Link is Valid!`
-                })
+                setInviteUnavailable({ reason: "error" })
             })
+    }
+
+    React.useEffect(() => {
+        fetchInviteInfo()
+    }, [])
+
+    /* Every Stage a Team can Enable, Keyed by Stage ID (which is also its Route) */
+    const ONBOARDING_STAGE_REGISTRY: { [stageId: string]: OnboardingStageDefinition } = {
+        loginsetup: {
+            path: "loginsetup",
+            title: "Create Password",
+            icon: Lock,
+            checklistName: "Password Creation",
+            /* A Resumed Draft Knows a Password was Created, but not what it was */
+            isComplete: () => passwordCreatedRef.current && createdPasswordRef.current.length > 0,
+            isSubmittable: () => createdPasswordRef.current.length >= passwordStageProps.policy.minLength,
+            element: <CreatePasswordStage defaultPassword={createdPasswordRef.current} serverError={submissionFieldErrors.password} {...passwordStageProps} />
+        },
+        security: {
+            path: "security",
+            title: "Secure your Account",
+            icon: ShieldCheckIcon,
+            checklistItems: () => [{
+                name: "Multi-Factor Authentication",
+                status: mfaMethodRef.current != undefined,
+                optional: !mfaRequiredRef.current
+            }],
+            isComplete: () => mfaMethodRef.current != undefined || (mfaSkippedRef.current && !mfaRequiredRef.current),
+            element: (
+                <SecureAccountStage
+                    isPreview={isPreview}
+                    onboardId={params.onboardId}
+                    required={mfaRequiredRef.current}
+                    defaultMethod={mfaMethodRef.current}
+                    stepComplete={handleSecureAccountComplete}
+                />
+            )
+        },
+        identity: {
+            path: "identity",
+            title: "Personal Information",
+            icon: User2Icon,
+            checklistName: "Personal Information",
+            isComplete: () => personalInfoRef.current != undefined,
+            element: <PersonalInfoStage isPreview={isPreview} onboardId={params.onboardId} defaultData={personalInfoRef.current ?? personalInfoProgressRef.current} onChange={handlePersonalInfoChange} serverErrors={submissionFieldErrors} {...personalInfoProps} />
+        },
+        legal: {
+            path: "legal",
+            title: "Legal Agreements",
+            icon: Signature,
+            checklistItems: () => legalDocumentsRef.current.map((document) => ({
+                name: document.title,
+                status: isLegalDocumentSigned(document)
+            })),
+            isComplete: () => legalDocumentsRef.current.every(isLegalDocumentSigned),
+            element: (
+                <ProprietaryInformationStage
+                    documents={legalDocumentsRef.current}
+                    signerName={inviteInfo?.inviteName ?? ""}
+                    defaultSignatures={legalSignaturesRef.current}
+                    defaultProgress={legalProgressRef.current}
+                    onProgressChange={handleLegalProgressChange}
+                    serverError={submissionFieldErrors.legalAgreements}
+                    stepComplete={handleLegalAgreementsComplete}
+                />
+            )
+        },
+        slack: {
+            path: "slack",
+            title: "Join App Dev Slack",
+            icon: MessagesSquare,
+            checklistName: "Join App Dev Slack",
+            isComplete: () => slackJoinComplete.current,
+            element: <SlackJoinStage isPreview={isPreview} defaultVerified={slackJoinComplete.current} {...slackJoinProps} />
+        }
+    }
+
+    function getOnboardingFlowList(): OnboardingStageDefinition[] {
+        const configuredStages = onboardingFlowRef.current
+            .filter((stageId) => stageId !== "loginsetup" && stageId !== "security" && stageId in ONBOARDING_STAGE_REGISTRY)
+            .filter((stageId) => stageId !== "legal" || legalDocumentsRef.current.length > 0)
+            .map((stageId) => ONBOARDING_STAGE_REGISTRY[stageId])
+
+        /* Teams that Require MFA get the Stage even when their Flow Omits it */
+        const securityStages = (onboardingFlowRef.current.includes("security") || mfaRequiredRef.current) ? [ONBOARDING_STAGE_REGISTRY.security] : []
+        const requiredStages = [ONBOARDING_STAGE_REGISTRY.loginsetup, ...securityStages, ...configuredStages]
+        return [
+            ...requiredStages,
+            {
+                path: "complete",
+                title: "Complete Setup",
+                icon: CheckCircle2Icon,
+                isComplete: () => true,
+                element: (
+                    <CompleteSetupStage
+                        isLoading={isLoading}
+                        stepComplete={handleNextStep}
+                        submissionError={submissionError}
+                        onDownloadSignedSummaries={(configuredStages.includes(ONBOARDING_STAGE_REGISTRY.legal) && legalSignaturesRef.current.length > 0) ? handleSignedSummaryDownload : undefined}
+                        stages={requiredStages.flatMap((stage) => stage.checklistItems?.() ?? [{
+                            name: stage.checklistName ?? stage.title,
+                            status: (stage.isSubmittable ?? stage.isComplete)()
+                        }])}
+                    />
+                )
+            }
+        ]
+    }
+
+    function isLegalDocumentSigned(document: LegalDocument) {
+        /* A Signature on an Older Version doesn't Count, the Document has Changed since */
+        return legalSignaturesRef.current.some((signature) =>
+            signature.documentId === document.id && signature.agreementVersion === document.version)
+    }
+
+    function handleSignedSummaryDownload() {
+        if (!inviteInfo)
+            return
+
+        const agreements = legalDocumentsRef.current.flatMap((document) => {
+            const signature = legalSignaturesRef.current.find((el) => el.documentId === document.id && el.agreementVersion === document.version)
+            return signature ? [{ document, signature }] : []
+        })
+
+        downloadSignedAgreementSummary(agreements, {
+            name: inviteInfo.inviteName,
+            email: inviteInfo.inviteEmail,
+            teamName: inviteInfo.teamName,
+            role: inviteInfo.roleTitle
+        })
+    }
+
+    function getFirstIncompleteStep(flowList: OnboardingStageDefinition[]) {
+        const firstIncomplete = flowList.findIndex((stage) => !stage.isComplete())
+        return firstIncomplete < 0 ? flowList.length - 1 : firstIncomplete
+    }
+
+    const ONBOARDING_FLOWLIST = getOnboardingFlowList()
+
+    React.useEffect(() => {
+        /* Wait for the Draft to be Restored before Guarding Deep Links */
+        if (!inviteInfo || isPreview)
+            return
+
+        const requestedStep = ONBOARDING_FLOWLIST.findIndex((el) => location.pathname.endsWith(el.path))
+        if (requestedStep < 0)
+            return
+
+        const firstIncomplete = getFirstIncompleteStep(ONBOARDING_FLOWLIST)
+        if (requestedStep > firstIncomplete) {
+            toast.info(`Please complete "${ONBOARDING_FLOWLIST[firstIncomplete].title}" first!`)
+            currentStepRef.current = firstIncomplete
+            navigate(`${basePath}/${ONBOARDING_FLOWLIST[firstIncomplete].path}`, { replace: true })
+            return
+        }
+
+        currentStepRef.current = requestedStep
+    }, [location.pathname, inviteInfo])
+
+    const announce = React.useCallback((message: string) => {
+        /* Clear First so Repeating the Same Message is still Read Out */
+        setLiveAnnouncement("")
+        requestAnimationFrame(() => setLiveAnnouncement(message))
     }, [])
 
+    React.useEffect(() => {
+        if (!inviteInfo)
+            return
+
+        /* Move Focus to the New Stage, but not on First Load where it would Skip the Header */
+        const previousPath = lastStagePathRef.current
+        lastStagePathRef.current = location.pathname
+        if (previousPath === undefined || previousPath === location.pathname)
+            return
+
+        const stepIndex = ONBOARDING_FLOWLIST.findIndex((el) => location.pathname.endsWith(el.path))
+        if (stepIndex >= 0)
+            announce(`Step ${stepIndex + 1} of ${ONBOARDING_FLOWLIST.length}: ${ONBOARDING_FLOWLIST[stepIndex].title}`)
+
+        requestAnimationFrame(() => {
+            const container = stageContainerRef.current
+            const heading = container?.querySelector<HTMLElement>("[data-slot=card-title], h1, h2")
+            if (heading) {
+                heading.tabIndex = -1
+                heading.focus()
+            } else container?.focus()
+        })
+    }, [location.pathname, inviteInfo, announce])
+
+    const currentStepIndex = ONBOARDING_FLOWLIST.findIndex((el) => location.pathname.endsWith(el.path))
+
     return (
         <div className="flex flex-col w-full h-full">
             { /* Minimal, Special Header for Onboarding Page */}
             <header className="flex w-full h-14 shrink-0 items-center gap-2 border-b px-4">
                 <img className='h-8' src={logo} />
                 <h1>Onboarding Portal</h1>
+                {isPreview && (
+                    <Badge variant="secondary" className='ml-auto text-amber-700 bg-amber-50 border-amber-200' title="You're seeing exactly what the invitee sees. Nothing you enter is saved.">
+                        Preview Mode: Nothing is Saved
+                    </Badge>
+                )}
             </header>
 
             { /* Add Stages Here */}
             <div style={{ height: "calc(100% - calc(var(--spacing) * 12))" }} className='flex flex-col w-full justify-center items-center'>
-                <SidebarProvider className='items-start h-full min-h-0'>
-                    <Sidebar collapsible="none" className="hidden md:flex">
+                {inviteUnavailable ? <InviteUnavailableScreen isPreview={isPreview} invite={inviteUnavailable} onboardId={params.onboardId} onRetry={fetchInviteInfo} /> : <SidebarProvider className='items-start h-full min-h-0'>
+                    <Sidebar collapsible="none" className="hidden md:flex" aria-label="Onboarding Steps">
                         <SidebarContent>
                             <SidebarGroup>
                                 <SidebarGroupContent style={{}}>
                                     <SidebarMenu>
                                         {
-                                            ONBOARDING_FLOWLIST.map((el, index) => (
-                                                <SidebarMenuItem>
+                                            ONBOARDING_FLOWLIST.map((el) => (
+                                                <SidebarMenuItem key={el.path}>
                                                     <SidebarMenuButton
                                                         asChild
                                                         isActive={location.pathname.endsWith(el.path)}
                                                     >
-                                                        <Link onClick={() => { currentStepRef.current = index }} to={`${basePath}/${el.path}`}>
+                                                        <Link to={`${basePath}/${el.path}`} aria-current={location.pathname.endsWith(el.path) ? "step" : undefined}>
                                                             <el.icon />
                                                             <span>{el.title}</span>
                                                         </Link>
@@ -283,28 +913,149 @@ export const UserOnboarding = () => {
                         </SidebarContent>
                     </Sidebar>
 
-                    <div className='flex flex-col items-center justify-center h-full flex-grow-1'>
-                        <Routes>
-                            <Route path="/" element={<Navigate to="loginsetup" />} />
-                            <Route path="/loginsetup" element={<CreatePasswordStage defaultPassword={createdPasswordRef.current} {...passwordStageProps} />} />
-                            <Route path='/legal' element={<ProprietaryInformationStage defaultSigned={ipAgreementComplete.current} stepComplete={handleIPAgreementComplete} />} />
-                            <Route path='/slack' element={<SlackJoinStage defaultVerified={slackJoinComplete.current} {...slackJoinProps} />} />
-                            <Route path='/identity' element={<PersonalInfoStage onboardId={params.onboardId} defaultData={personalInfoRef.current} {...personalInfoProps} />} />
-                            <Route path='/complete' element={
-                                <CompleteSetupStage
-                                    isLoading={isLoading}
-                                    stepComplete={handleNextStep}
-                                    stages={[
-                                        { name: "Password Creation", status: createdPasswordRef.current.length >= 8 },
-                                        { name: "Personal Information", status: personalInfoRef.current != undefined },
-                                        { name: "Intellectual Property Agreement", status: ipAgreementComplete.current },
-                                        { name: "Join App Dev Slack", status: slackJoinComplete.current }
-                                    ]}
-                                />
-                            } />
-                        </Routes>
+                    <div className='flex flex-col h-full flex-grow-1 min-w-0'>
+                        {inviteInfo && currentStepIndex >= 0 && (
+                            <OnboardingMobileStepper stages={ONBOARDING_FLOWLIST} currentStep={currentStepIndex} basePath={basePath} />
+                        )}
+
+                        <main ref={stageContainerRef} tabIndex={-1} className='flex flex-col items-center justify-center flex-1 min-h-0 outline-none'>
+                            {
+                                !inviteInfo ? <Loader2Icon className='size-8 animate-spin text-muted-foreground' aria-label="Loading your Invite" /> :
+                                    <OnboardingAnnouncerContext.Provider value={announce}>
+                                        <Routes>
+                                            <Route path="/" element={<Navigate to={ONBOARDING_FLOWLIST[0].path} />} />
+                                            <Route path="/welcome" element={
+                                                !onboardingHandoff ? <Navigate to={ONBOARDING_FLOWLIST[0].path} /> :
+                                                    <OnboardingHandoffStage
+                                                        firstName={inviteInfo.inviteName.split(" ")[0]}
+                                                        teamName={inviteInfo.teamName}
+                                                        roleTitle={inviteInfo.roleTitle}
+                                                        subteamPk={inviteInfo.subteamPk}
+                                                        handoff={onboardingHandoff}
+                                                    />
+                                            } />
+                                            {
+                                                ONBOARDING_FLOWLIST.map((stage) => (
+                                                    <Route key={stage.path} path={`/${stage.path}`} element={stage.element} />
+                                                ))
+                                            }
+                                        </Routes>
+                                    </OnboardingAnnouncerContext.Provider>
+                            }
+                        </main>
                     </div>
-                </SidebarProvider>
+                </SidebarProvider>}
+
+                <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">{liveAnnouncement}</div>
+            </div>
+        </div>
+    )
+}
+
+const OnboardingMobileStepper = (props: OnboardingMobileStepperProps) => {
+    const stage = props.stages[props.currentStep]
+
+    return (
+        <nav aria-label="Onboarding Progress" className='md:hidden flex flex-col gap-2 w-full border-b px-4 py-3'>
+            <div className='flex items-center justify-between text-sm'>
+                <span className='flex items-center gap-2 font-medium'>
+                    <stage.icon className='size-4' />
+                    {stage.title}
+                </span>
+                <span className='text-muted-foreground text-xs'>Step {props.currentStep + 1} of {props.stages.length}</span>
+            </div>
+
+            <ol className='flex gap-1'>
+                {props.stages.map((el, i) => (
+                    <li key={el.path} className='flex-1'>
+                        <Link
+                            to={`${props.basePath}/${el.path}`}
+                            aria-label={`Step ${i + 1}: ${el.title}${el.isComplete() ? ", Complete" : ""}`}
+                            aria-current={i === props.currentStep ? "step" : undefined}
+                            className={cn(
+                                "block h-1.5 rounded-full outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+                                i === props.currentStep ? "bg-primary" : el.isComplete() ? "bg-primary/50" : "bg-muted"
+                            )}
+                        />
+                    </li>
+                ))}
+            </ol>
+        </nav>
+    )
+}
+
+const InviteUnavailableScreen = (props: InviteUnavailableScreenProps) => {
+    const [requestState, setRequestState] = React.useState<"idle" | "sending" | "sent">("idle")
+    const copy = INVITE_UNAVAILABLE_COPY[props.invite.reason]
+
+    /* Only Expired and Revoked Invites still Know which Team to Ask */
+    const canRequestNewInvite = props.invite.reason === "expired" || props.invite.reason === "revoked"
+
+    const handleRequestNewInvite = () => {
+        if (props.isPreview) {
+            showPreviewNotice("Requesting a new invite")
+            return
+        }
+
+        setRequestState("sending")
+        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/invites/${props.onboardId}/renewal-request`, {
+            method: "POST"
+        }).then((res) => {
+            if (!res.ok)
+                throw new Error(res.statusText)
+
+            setRequestState("sent")
+            toast.success("Request Sent!", {
+                description: `We've let ${props.invite.teamName ?? "the team"} know, you'll receive a new invite email once they approve it.`
+            })
+        }).catch(() => {
+            setRequestState("idle")
+            toast.error("Failed to Request a New Invite", {
+                description: "Please try again, or contact the person who invited you directly."
+            })
+        })
+    }
+
+    return (
+        <div className='flex flex-col h-full w-full justify-center items-center p-12'>
+            <copy.icon className='size-12 text-muted-foreground mb-4' />
+            <CardTitle>{copy.title}</CardTitle>
+            <CardDescription className='text-center max-w-lg mt-1'>{copy.description}</CardDescription>
+
+            {props.invite.inviterEmail && (
+                <Alert variant="default" className='w-lg mt-5'>
+                    <MailIcon />
+                    <AlertTitle>Your Invite Contact</AlertTitle>
+                    <AlertDescription>
+                        <span>
+                            {props.invite.inviterName ?? "Your inviter"}{props.invite.teamName && `, ${props.invite.teamName}`}
+                            {" · "}
+                            <a className='underline' href={`mailto:${props.invite.inviterEmail}`}>{props.invite.inviterEmail}</a>
+                        </span>
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <div className='flex gap-2 mt-5'>
+                {props.invite.reason === "redeemed" && (
+                    <Button asChild>
+                        <Link to="/">Go to the People Portal</Link>
+                    </Button>
+                )}
+
+                {props.invite.reason === "error" && (
+                    <Button onClick={props.onRetry}>
+                        <RotateCwIcon />
+                        Try Again
+                    </Button>
+                )}
+
+                {canRequestNewInvite && (
+                    <Button onClick={handleRequestNewInvite} disabled={requestState !== "idle"}>
+                        {requestState === "sending" ? <Loader2Icon className='animate-spin' /> : <SendIcon />}
+                        {requestState === "sent" ? "Request Sent" : "Request a New Invite"}
+                    </Button>
+                )}
             </div>
         </div>
     )
@@ -315,7 +1066,7 @@ const CompleteSetupStage = (props: CompleteSetupStageProps) => {
 
     React.useEffect(() => {
         for (const stage of props.stages) {
-            if (!stage.status) {
+            if (!stage.status && !stage.optional) {
                 setAllComplete(false)
                 break;
             }
@@ -343,7 +1094,9 @@ const CompleteSetupStage = (props: CompleteSetupStageProps) => {
                                     <TableCell>{
                                         stage.status ?
                                             <span className='flex gap-1 items-center text-green-500'><CheckCircle2Icon size="16" /> Complete</span> :
-                                            <span className='flex gap-1 items-center text-red-400'><XCircleIcon size="16" /> Incomplete</span>
+                                            stage.optional ?
+                                                <span className='flex gap-1 items-center text-muted-foreground'><Minus size="16" /> Skipped</span> :
+                                                <span className='flex gap-1 items-center text-red-400'><XCircleIcon size="16" /> Incomplete</span>
                                     }</TableCell>
                                 </TableRow>
                             ))
@@ -351,393 +1104,435 @@ const CompleteSetupStage = (props: CompleteSetupStageProps) => {
                     </TableBody>
                 </Table>
 
-                <Button
-                    className='mt-5'
-                    disabled={!allStepsComplete || props.isLoading}
-                    onClick={props.stepComplete}
-                >
-                    <Loader2Icon className={cn('animate-spin', !props.isLoading && 'hidden')} />
-                    Finish Setup
-                </Button>
+                {props.submissionError && (
+                    <Alert variant="destructive">
+                        <TriangleAlertIcon />
+                        <AlertTitle>We couldn't finish setting up your account</AlertTitle>
+                        <AlertDescription>
+                            {props.submissionError}. Retrying is safe, it won't create a duplicate account.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                <div className='flex gap-2 mt-5'>
+                    {props.onDownloadSignedSummaries && (
+                        <Button variant="outline" onClick={props.onDownloadSignedSummaries}>
+                            <DownloadIcon />
+                            Download Signed Agreements
+                        </Button>
+                    )}
+
+                    <Button
+                        disabled={!allStepsComplete || props.isLoading}
+                        onClick={props.stepComplete}
+                    >
+                        <Loader2Icon className={cn('animate-spin', !props.isLoading && 'hidden')} />
+                        {props.submissionError ? "Retry Setup" : "Finish Setup"}
+                    </Button>
+                </div>
             </div>
         </div>
     )
 }
 
-const PersonalInfoStage = (props: PersonalInfoStageProps) => {
-    const [preview, setPreview] = React.useState<string | null>(props.defaultData?.profileUrl ?? null);
-    const [avatarKey, setAvatarKey] = React.useState<string | undefined>(props.defaultData?.avatarKey);
-    const fileUploadRef = React.useRef<HTMLInputElement>(null)
-    const [phoneNumber, setPhoneNumber] = React.useState(props.defaultData?.phoneNumber ?? "")
-    const [selectedMajor, setSelectedMajor] = React.useState<UMDApiMajorListResponse | undefined>(props.defaultData?.major)
-    const [isUploading, setIsUploading] = React.useState(false);
+const SecureAccountStage = (props: SecureAccountStageProps) => {
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [totpEnrollment, setTotpEnrollment] = React.useState<APITOTPEnrollment>()
+    const [totpCode, setTotpCode] = React.useState("")
 
-    const [majorListOpen, setMajorListOpen] = React.useState(false)
-    const [majors, setMajors] = React.useState<UMDApiMajorListResponse[]>([])
-    const [expectedGraduation, setExpectedGraduation] = React.useState(props.defaultData?.expectedGrad ?? "")
+    const mfaEndpoint = `${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/invites/${props.onboardId}/mfa`
+    const passkeysSupported = typeof window.PublicKeyCredential?.parseCreationOptionsFromJSON === "function"
 
-    // Cropping State
-    const [cropImage, setCropImage] = React.useState<string | null>(null)
-    const [crop, setCrop] = React.useState<Point>({ x: 0, y: 0 })
-    const [zoom, setZoom] = React.useState(1)
-    const [croppedAreaPixels, setCroppedAreaPixels] = React.useState<Area | null>(null)
-    const [isCroppingOpen, setIsCroppingOpen] = React.useState(false)
+    const handlePasskeyEnroll = () => {
+        if (props.isPreview) {
+            showPreviewNotice("Adding a passkey")
+            props.stepComplete("webauthn")
+            return
+        }
 
+        setIsLoading(true)
+        fetch(`${mfaEndpoint}/webauthn/options`, { method: "POST" })
+            .then(async (res) => {
+                if (!res.ok)
+                    throw new Error(res.statusText)
 
-    React.useEffect(() => {
-        fetch("https://api.umd.io/v1/majors/list")
-            .then(async (res) => (await res.json()))
-            .then((majors) => { setMajors(majors) })
-            .catch(() => {
-                toast.error("Failed to Fetch Majors", {
-                    description: "Major List Fetch Failed from University of Maryland Community APIs"
+                const options = await res.json() as PublicKeyCredentialCreationOptionsJSON
+                const credential = await navigator.credentials.create({
+                    publicKey: PublicKeyCredential.parseCreationOptionsFromJSON(options)
+                }) as PublicKeyCredential | null
+
+                if (!credential)
+                    throw new Error("No Credential Created")
+
+                const verifyRes = await fetch(`${mfaEndpoint}/webauthn/verify`, {
+                    method: "POST",
+                    headers: {
+                        'Content-Type': 'application/json'
+                    },
+
+                    body: JSON.stringify(credential.toJSON())
                 })
-            })
-    }, [])
 
-    const getCroppedImg = (imageSrc: string, pixelCrop: Area): Promise<Blob> => {
-        return new Promise((resolve, reject) => {
-            const image = new Image();
-            image.src = imageSrc;
-            image.onload = () => {
-                const canvas = document.createElement('canvas');
-                const ctx = canvas.getContext('2d');
-
-                if (!ctx) {
-                    reject(new Error("No 2d context"));
-                    return;
+                if (!verifyRes.ok)
+                    throw new Error(verifyRes.statusText)
+
+                toast.success("Passkey Added!")
+                props.stepComplete("webauthn")
+            })
+            .catch((e) => {
+                /* Raised when the User Dismisses the Browser Prompt */
+                if (e.name === "NotAllowedError") {
+                    toast.info("Passkey Setup Cancelled")
+                    return
                 }
 
-                // Set canvas size to the desired cropped size
-                canvas.width = pixelCrop.width;
-                canvas.height = pixelCrop.height;
-
-                ctx.drawImage(
-                    image,
-                    pixelCrop.x,
-                    pixelCrop.y,
-                    pixelCrop.width,
-                    pixelCrop.height,
-                    0,
-                    0,
-                    pixelCrop.width,
-                    pixelCrop.height
-                );
-
-                canvas.toBlob((blob) => {
-                    if (!blob) {
-                        reject(new Error("Canvas is empty"));
-                        return;
-                    }
-                    resolve(blob);
-                }, 'image/webp', 1.0);
-            };
-            image.onerror = (error) => reject(error);
-        });
-    };
+                toast.error("Failed to Add Passkey", {
+                    description: "Please try again, or use an authenticator app instead."
+                })
+            })
+            .finally(() => setIsLoading(false))
+    }
 
+    const handleTotpStart = () => {
+        if (props.isPreview) {
+            showPreviewNotice("Adding an authenticator app")
+            props.stepComplete("totp")
+            return
+        }
 
-    const validateFileSignature = (file: File): Promise<boolean> => {
-        return new Promise((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = (e) => {
-                if (!e.target?.result || typeof e.target.result === 'string') {
-                    resolve(false);
-                    return;
-                }
+        setIsLoading(true)
+        fetch(`${mfaEndpoint}/totp`, { method: "POST" })
+            .then(async (res) => {
+                if (!res.ok)
+                    throw new Error(res.statusText)
 
-                const arr = (new Uint8Array(e.target.result)).subarray(0, 4);
-                let header = "";
-                for (let i = 0; i < arr.length; i++) {
-                    header += arr[i].toString(16);
-                }
+                setTotpEnrollment(await res.json() as APITOTPEnrollment)
+            })
+            .catch(() => {
+                toast.error("Failed to Start Authenticator Setup", {
+                    description: "Please try again in a moment."
+                })
+            })
+            .finally(() => setIsLoading(false))
+    }
 
-                // Magic Numbers
-                // PNG: 89 50 4E 47
-                // JPEG: FF D8 FF
-                // GIF: 47 49 46 38
-                // WebP: 52 49 46 46 (RIFF) ... WEBP (handled loosely here by RIFF check but good enough for rough check)
-
-                // Check hex signature
-                let isValid = false;
-                switch (true) {
-                    case header.startsWith("89504e47"): // PNG
-                    case header.startsWith("ffd8ff"):   // JPEG
-                    case header.startsWith("47494638"): // GIF
-                    case header.startsWith("52494646"): // RIFF (WebP mostly)
-                        isValid = true;
-                        break;
-                    default:
-                        isValid = false;
-                        break;
-                }
-                resolve(isValid);
-            };
-            reader.readAsArrayBuffer(file.slice(0, 4)); // Read first 4 bytes
-        });
-    };
+    const handleTotpVerify = () => {
+        setIsLoading(true)
+        fetch(`${mfaEndpoint}/totp/verify`, {
+            method: "POST",
+            headers: {
+                'Content-Type': 'application/json'
+            },
 
-    async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+            body: JSON.stringify({ code: totpCode })
+        })
+            .then((res) => {
+                if (!res.ok)
+                    throw new Error(res.statusText)
 
-        const file = e.target.files?.[0];
-        if (file) {
-            const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-            if (!allowedTypes.includes(file.type)) {
-                toast.error("Invalid file type", { description: "Please upload an image (JPEG, PNG, WEBP, GIF)" });
-                return;
-            }
+                toast.success("Authenticator App Added!")
+                props.stepComplete("totp")
+            })
+            .catch(() => {
+                setTotpCode("")
+                toast.error("Invalid Verification Code", {
+                    description: "Please enter the current code shown in your authenticator app."
+                })
+            })
+            .finally(() => setIsLoading(false))
+    }
 
-            // Security: Magic Number Validation
-            const isValidSignature = await validateFileSignature(file);
-            if (!isValidSignature) {
-                toast.error("Invalid file content", { description: "The file content does not match its extension." });
-                return;
-            }
+    return (
+        <div className='flex flex-col h-full w-full justify-center items-center p-12'>
+            <CardTitle>Secure your Account</CardTitle>
+            <CardDescription className='text-center'>
+                Add a second factor so that your password alone can't be used to sign in.
+                {props.required && " Your team requires this before you can finish setup."}
+            </CardDescription>
+
+            {props.defaultMethod && (
+                <Alert variant="default" className='w-lg mt-5'>
+                    <ShieldCheckIcon />
+                    <AlertTitle>You're Already Protected</AlertTitle>
+                    <AlertDescription>
+                        You've added {props.defaultMethod === "webauthn" ? "a passkey" : "an authenticator app"}. You can continue, or add a different method below.
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            {!totpEnrollment ? (
+                <div className='grid grid-cols-2 gap-4 mt-5 w-lg'>
+                    <Button variant="outline" className='h-auto flex-col gap-2 p-4 whitespace-normal' disabled={!passkeysSupported || isLoading} onClick={handlePasskeyEnroll}>
+                        <KeyRoundIcon className='size-6' />
+                        <span className='font-semibold'>Use a Passkey</span>
+                        <span className='text-xs text-muted-foreground font-normal'>
+                            {passkeysSupported ? "Sign in with your fingerprint, face or security key." : "Passkeys aren't supported in this browser."}
+                        </span>
+                    </Button>
 
-            // Upfront File Size Check (Security: Prevent browser crash/hang during resize)
-            if (file.size > 20 * 1024 * 1024) {
-                toast.error("File is too large!", { description: "Maximum file size is 20MB" });
-                return;
-            }
+                    <Button variant="outline" className='h-auto flex-col gap-2 p-4 whitespace-normal' disabled={isLoading} onClick={handleTotpStart}>
+                        <SmartphoneIcon className='size-6' />
+                        <span className='font-semibold'>Use an Authenticator App</span>
+                        <span className='text-xs text-muted-foreground font-normal'>Scan a QR code with an app like Google Authenticator or 1Password.</span>
+                    </Button>
+                </div>
+            ) : (
+                <div className='flex flex-col items-center gap-4 mt-5 w-lg'>
+                    <div className='rounded-md border bg-white p-4'>
+                        <QRCodeSVG value={totpEnrollment.otpauthUri} size={180} />
+                    </div>
+                    <p className='text-xs text-muted-foreground text-center'>
+                        Can't scan the code? Enter this key manually: <code className='font-mono text-foreground break-all'>{totpEnrollment.secret}</code>
+                    </p>
 
-            // Reset Cropping State for New Image
-            setCrop({ x: 0, y: 0 });
-            setZoom(1);
-            setCroppedAreaPixels(null);
+                    <InputOTP value={totpCode} onChange={(code) => setTotpCode(code)} maxLength={6}>
+                        <InputOTPGroup>
+                            <InputOTPSlot index={0} />
+                            <InputOTPSlot index={1} />
+                            <InputOTPSlot index={2} />
+                        </InputOTPGroup>
+                        <InputOTPSeparator />
+                        <InputOTPGroup>
+                            <InputOTPSlot index={3} />
+                            <InputOTPSlot index={4} />
+                            <InputOTPSlot index={5} />
+                        </InputOTPGroup>
+                    </InputOTP>
+
+                    <div className='flex gap-2'>
+                        <Button variant="outline" disabled={isLoading} onClick={() => { setTotpEnrollment(undefined); setTotpCode("") }}>Back</Button>
+                        <Button disabled={totpCode.length != 6 || isLoading} onClick={handleTotpVerify}>
+                            <Loader2Icon className={cn('animate-spin', !isLoading && 'hidden')} />
+                            Verify and Continue
+                        </Button>
+                    </div>
+                </div>
+            )}
 
-            const reader = new FileReader();
-            reader.addEventListener('load', () => {
-                setCropImage(reader.result as string);
-                setIsCroppingOpen(true);
+            <div className='flex gap-2 mt-8'>
+                {props.defaultMethod && (
+                    <Button onClick={() => props.stepComplete(props.defaultMethod)}>Continue</Button>
+                )}
 
-                // Reset Input to allow re-selecting same file
-                if (fileUploadRef.current) {
-                    fileUploadRef.current.value = "";
-                }
-            });
-            reader.readAsDataURL(file);
-        }
-    }
+                {!props.required && !props.defaultMethod && (
+                    <Button variant="ghost" disabled={isLoading} onClick={() => props.stepComplete()}>Skip for Now</Button>
+                )}
+            </div>
+        </div>
+    )
+}
+
+const OnboardingHandoffStage = (props: OnboardingHandoffStageProps) => {
+    const navigate = useNavigate()
+    const meeting = props.handoff.firstMeeting
+
+    const resources: { icon: LucideIcon, title: string, description: string, url: string, external: boolean }[] = [
+        {
+            icon: UsersIcon,
+            title: `${props.teamName} Team Page`,
+            description: "See your teammates, leads and team settings.",
+            url: `/org/teams/${props.subteamPk}`,
+            external: false
+        },
+        ...(props.handoff.slackChannel ? [{
+            icon: MessagesSquare,
+            title: `#${props.handoff.slackChannel.name}`,
+            description: "Your team's Slack channel, say hi!",
+            url: props.handoff.slackChannel.url,
+            external: true
+        }] : []),
+        {
+            icon: BookOpenIcon,
+            title: `${ORGANIZATION_NAME} Wiki`,
+            description: "Guides, processes and everything else worth knowing.",
+            url: ORGANIZATION_WIKI_URL,
+            external: true
+        },
+        ...(props.handoff.grantedTools ?? []).filter((tool) => tool.url).map((tool) => ({
+            icon: WrenchIcon,
+            title: tool.friendlyName,
+            description: tool.description,
+            url: tool.url!,
+            external: true
+        }))
+    ]
 
-    async function processAndUploadAvatar() {
-        if (!cropImage || !croppedAreaPixels) return;
+    return (
+        <div className='flex flex-col h-full w-full items-center p-12 overflow-y-auto'>
+            <PartyPopperIcon className='size-12 text-muted-foreground mb-4' />
+            <CardTitle>Welcome to {props.teamName}, {props.firstName}!</CardTitle>
+            <CardDescription className='text-center'>You're all set up as a {props.roleTitle}. Here's everything you now have access to.</CardDescription>
+
+            {meeting && (
+                <Alert variant="default" className='w-full max-w-2xl mt-5'>
+                    <CalendarIcon />
+                    <AlertTitle>Your First Meeting: {meeting.title}</AlertTitle>
+                    <AlertDescription>
+                        <span>{format(new Date(meeting.startsAt), "EEEE, MMMM d 'at' h:mm a")}{meeting.location && ` · ${meeting.location}`}</span>
+                        <Button variant="outline" size="sm" className='mt-2' onClick={() => downloadCalendarInvite(meeting, `${props.subteamPk}-first-meeting@peopleportal`)}>
+                            <CalendarPlusIcon />
+                            Add to Calendar
+                        </Button>
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-4 mt-5 w-full max-w-2xl'>
+                {resources.map((resource) => (
+                    <Card key={resource.url} className='gap-2 py-4'>
+                        <CardHeader className='px-4'>
+                            <CardTitle className='flex items-center gap-2 text-base'>
+                                <resource.icon className='size-4' />
+                                {resource.title}
+                            </CardTitle>
+                            <CardDescription>{resource.description}</CardDescription>
+                        </CardHeader>
+                        <CardContent className='px-4'>
+                            {resource.external ?
+                                <Button variant="link" className='p-0 h-auto' asChild>
+                                    <a href={resource.url} target="_blank" rel="noopener noreferrer">Open <ExternalLinkIcon /></a>
+                                </Button> :
+                                <Button variant="link" className='p-0 h-auto' asChild>
+                                    <Link to={resource.url}>Open</Link>
+                                </Button>}
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
 
-        toast.info("Processing image...");
-        setIsUploading(true);
-        setIsCroppingOpen(false);
+            {(props.handoff.grantedTools ?? []).some((tool) => !tool.url) && (
+                <p className='text-sm text-muted-foreground mt-4 max-w-2xl text-center'>
+                    You've also been granted: {props.handoff.grantedTools!.filter((tool) => !tool.url).map((tool) => tool.friendlyName).join(", ")}.
+                </p>
+            )}
 
-        try {
-            const croppedBlob = await getCroppedImg(cropImage, croppedAreaPixels);
+            <Button className='mt-8' onClick={() => navigate("/")}>Go to the People Portal</Button>
+        </div>
+    )
+}
 
-            // Compress the image to max 500KB (with buffer)
-            const options = {
-                maxSizeMB: 0.45,
-                maxWidthOrHeight: 512,
-                useWebWorker: true,
-                initialQuality: 0.8,
-                fileType: 'image/webp'
-            };
+const PersonalInfoStage = (props: PersonalInfoStageProps) => {
+    const [preview, setPreview] = React.useState<string | null>(props.defaultData?.profileUrl ?? null);
+    const [avatarKey, setAvatarKey] = React.useState<string | undefined>(props.defaultData?.avatarKey);
+    const [phoneNumber, setPhoneNumber] = React.useState(props.defaultData?.phoneNumber ?? "")
+    const [selectedMajors, setSelectedMajors] = React.useState<UMDApiMajorListResponse[]>(props.defaultData?.majors ?? [])
+    const [selectedMinors, setSelectedMinors] = React.useState<UMDApiMajorListResponse[]>(props.defaultData?.minors ?? [])
+    const [isUploading, setIsUploading] = React.useState(false);
 
-            const compressedBlob = await imageCompression(new File([croppedBlob], "avatar.webp", { type: "image/webp" }), options);
-            const uploadFile = new File([compressedBlob], "avatar.webp", { type: "image/webp" });
+    const [majorCatalog, setMajorCatalog] = React.useState<MajorCatalog>()
+    const [expectedGraduation, setExpectedGraduation] = React.useState(props.defaultData?.expectedGrad ?? "")
 
-            const url = URL.createObjectURL(uploadFile);
-            if (preview) URL.revokeObjectURL(preview);
-            setPreview(url);
+    React.useEffect(() => {
+        /* Drafts only Keep the avatarKey, Ask the Server for the Image on Resume */
+        if (!avatarKey || preview)
+            return
+
+        let cancelled = false
+        fetchAvatarPreviewUrl(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/avatar/preview-url?inviteId=${props.onboardId}`, avatarKey)
+            .then((url) => {
+                if (!cancelled)
+                    setPreview(url)
+            })
+            .catch((e) => console.error("Failed to Fetch Avatar Preview", e))
 
-            if (!props.onboardId) {
-                toast.error("Missing Onboard ID");
-                setIsUploading(false);
-                return;
-            }
+        return () => { cancelled = true }
+    }, [avatarKey, preview, props.onboardId])
 
-            // Get Upload URL
-            const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/avatar/upload-url?inviteId=${props.onboardId}&fileName=${encodeURIComponent(uploadFile.name)}&contentType=${encodeURIComponent(uploadFile.type)}`);
-            if (!res.ok) {
-                const err = await res.json();
-                throw new Error(err.message || "Failed to get upload URL");
-            }
-            const { uploadUrl, key, fields } = await res.json();
-
-            // Upload to S3 using Presigned POST
-            const formData = new FormData();
-            Object.entries(fields).forEach(([k, v]) => {
-                formData.append(k, v as string);
-            });
-            formData.append("file", uploadFile);
-
-            const uploadRes = await fetch(uploadUrl, {
-                method: 'POST',
-                body: formData,
-            });
-
-            if (!uploadRes.ok) {
-                const errorText = await uploadRes.text();
-                if (uploadRes.status === 403 && errorText.includes("EntityTooLarge")) {
-                    throw new Error("File is too large (S3 Limit Exceeded)");
-                }
-                if (uploadRes.status === 400) {
-                    throw new Error("Please try a different image.");
-                }
-                throw new Error(`Failed to upload to S3: ${uploadRes.status} ${uploadRes.statusText}`);
-            }
+    const { onChange } = props
+    React.useEffect(() => {
+        onChange({
+            profileUrl: preview ?? "",
+            avatarKey: avatarKey,
+            majors: selectedMajors,
+            minors: selectedMinors,
+            expectedGrad: expectedGraduation,
+            phoneNumber: phoneNumber
+        })
+    }, [preview, avatarKey, selectedMajors, selectedMinors, expectedGraduation, phoneNumber, onChange])
 
-            await new Promise(r => setTimeout(r, 1000)); // Wait a bit for S3 consistency
-
-            setAvatarKey(key);
-            toast.success("Profile picture uploaded!");
-        } catch (e: any) {
-            console.error(e);
-            toast.error("Upload failed", { description: e.message || "Please try again later" });
-            setAvatarKey(undefined); // Clear key on error
-        } finally {
-            setIsUploading(false);
-            setCropImage(null);
-        }
-    }
+    React.useEffect(() => {
+        /* Never Rejects, the Bundled Snapshot is Used when the Portal is Unreachable */
+        fetchMajorCatalog().then(setMajorCatalog)
+    }, [])
 
     return (
         <div className='flex flex-col h-full w-full items-center justify-center p-12'>
-            <Avatar title='Upload Profile Picture' onClick={() => fileUploadRef.current?.click()} className="size-32 rounded-full cursor-pointer">
-                <AvatarImage src={preview ?? undefined} alt="Profile" />
-                <AvatarFallback>
-                    {isUploading ? <Loader2Icon className='size-8 animate-spin' /> : <UploadCloudIcon className='size-8' />}
-                </AvatarFallback>
-            </Avatar>
-            <p className='mt-4 mb-2'>Upload your Profile Picture</p>
-
-            <Input
-                ref={fileUploadRef}
-                id="avatar-upload"
-                type="file"
-                accept="image/*"
-                className="hidden"
-                onChange={onFileChange}
+            <AvatarUploader
+                uploadUrlEndpoint={`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/people/avatar/upload-url?inviteId=${props.onboardId}`}
+                defaultPreviewUrl={preview ?? undefined}
+                defaultAvatarKey={avatarKey}
+                disabled={props.isPreview}
+                onUploadingChange={setIsUploading}
+                onUploaded={(key, previewUrl) => {
+                    setAvatarKey(key)
+                    setPreview(previewUrl)
+                }}
             />
-
-            <Dialog open={isCroppingOpen} onOpenChange={(open) => {
-                setIsCroppingOpen(open);
-                if (!open) {
-                    setCropImage(null);
-                }
-            }}>
-                <DialogContent className="max-w-xl">
-                    <DialogHeader>
-                        <DialogTitle>Crop your Profile Picture</DialogTitle>
-                    </DialogHeader>
-                    <div className="relative h-[400px] w-full mt-4 bg-muted rounded-md overflow-hidden">
-                        {cropImage && (
-                            <Cropper
-                                image={cropImage}
-                                crop={crop}
-                                zoom={zoom}
-                                aspect={1}
-                                onCropChange={setCrop}
-                                onZoomChange={setZoom}
-                                onCropComplete={(_, pixels) => setCroppedAreaPixels(pixels)}
-                            />
-                        )}
-                    </div>
-                    <div className="flex items-center justify-center gap-4 mt-4 w-full">
-                        <Minus
-                            className="w-4 h-4 cursor-pointer hover:opacity-70"
-                            onClick={() => setZoom(Math.max(1, zoom - 0.1))}
-                        />
-                        <Slider
-                            value={[zoom]}
-                            min={1}
-                            max={3}
-                            step={0.1}
-                            onValueChange={(value) => setZoom(value[0])}
-                            className="w-[50%]"
-                        />
-                        <Plus
-                            className="w-4 h-4 cursor-pointer hover:opacity-70"
-                            onClick={() => setZoom(Math.min(3, zoom + 0.1))}
-                        />
-                    </div>
-                    <DialogFooter className="mt-4">
-                        <Button variant="outline" onClick={() => setIsCroppingOpen(false)}>Cancel</Button>
-                        <Button onClick={processAndUploadAvatar}>Crop & Upload</Button>
-                    </DialogFooter>
-                </DialogContent>
-            </Dialog>
+            {props.serverErrors.avatarKey && <span role="alert" className="text-xs text-red-500 font-medium mt-2">{props.serverErrors.avatarKey}</span>}
+            {props.isPreview && <p className='text-muted-foreground text-xs mt-2'>Profile picture uploads are skipped in a preview.</p>}
 
             <div className={'grid gap-2 w-lg mt-5'}>
                 <Label>What's your Major?</Label>
-                <Popover open={majorListOpen} onOpenChange={setMajorListOpen}>
-                    <PopoverTrigger asChild>
-                        <Button
-                            variant="outline"
-                            role="combobox"
-                            aria-expanded={majorListOpen}
-                            className="justify-between max-w-full"
-                        >
-                            {selectedMajor
-                                ? selectedMajor.name
-                                : "No Major Chosen"}
-                            <ChevronsUpDown className="opacity-50" />
-                        </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-[600px] max-w-[600px] p-0">
-                        <Command>
-                            <CommandInput placeholder="Search UMD Major" className="h-9" />
-                            <CommandList>
-                                <CommandEmpty>No Majors Found</CommandEmpty>
-                                <CommandGroup>
-                                    {majors.map((framework) => (
-                                        <CommandItem
-                                            key={framework.major_id}
-                                            value={framework.name}
-                                            onSelect={(currentValue) => {
-                                                setSelectedMajor(framework)
-                                                setMajorListOpen(false)
-                                            }}
-                                        >
-                                            <div className='flex flex-col'>
-                                                <span>{framework.name}</span>
-                                                <span className='text-sm text-muted-foreground'>{framework.college}</span>
-                                            </div>
-                                            <Check
-                                                className={cn(
-                                                    "ml-auto",
-                                                    selectedMajor?.major_id === framework.major_id ? "opacity-100" : "opacity-0"
-                                                )}
-                                            />
-                                        </CommandItem>
-                                    ))}
-                                </CommandGroup>
-                            </CommandList>
-                        </Command>
-                    </PopoverContent>
-                </Popover>
+                <MajorCatalogPicker
+                    catalog={majorCatalog?.majors ?? []}
+                    selected={selectedMajors}
+                    onSelectedChange={setSelectedMajors}
+                    maxSelections={2}
+                    ariaLabel="Major"
+                    placeholder={majorCatalog ? "No Major Chosen" : "Loading Majors..."}
+                    searchPlaceholder="Search UMD Major"
+                />
+                {props.serverErrors.major && <span role="alert" className="text-xs text-red-500 font-medium">{props.serverErrors.major}</span>}
+                <p className='text-muted-foreground text-xs'>
+                    Double majoring? Pick both of your majors.
+                    {majorCatalog?.isSnapshot && " We couldn't reach the live major and minor lists, so an offline copy is shown."}
+                </p>
             </div>
 
             <div className={'grid gap-2 w-lg mt-5'}>
-                <Label>Expected Graduation</Label>
+                <Label>Any Minors? <span className='text-muted-foreground text-xs'>(Optional)</span></Label>
+                <MajorCatalogPicker
+                    catalog={majorCatalog?.minors ?? []}
+                    selected={selectedMinors}
+                    onSelectedChange={setSelectedMinors}
+                    ariaLabel="Minors"
+                    placeholder={majorCatalog ? "No Minors Chosen" : "Loading Minors..."}
+                    searchPlaceholder="Search UMD Minors"
+                />
+                {props.serverErrors.minors && <span role="alert" className="text-xs text-red-500 font-medium">{props.serverErrors.minors}</span>}
+            </div>
+
+            <div className={'grid gap-2 w-lg mt-5'}>
+                <Label htmlFor="expectedGrad">Expected Graduation</Label>
                 <Input
+                    id="expectedGrad"
                     type='date'
                     value={expectedGraduation}
+                    aria-invalid={!!props.serverErrors.expectedGrad}
                     onChange={(e) => setExpectedGraduation(e.target.value)}
                 />
+                {props.serverErrors.expectedGrad && <span role="alert" className="text-xs text-red-500 font-medium">{props.serverErrors.expectedGrad}</span>}
             </div>
 
             <div className={'grid gap-2 w-lg mt-5'}>
-                <Label>Phone Number</Label>
+                <Label htmlFor="phoneNumber">Phone Number</Label>
                 <PhoneInput
+                    id="phoneNumber"
                     defaultCountry='US'
                     placeholder="Enter phone number"
                     value={phoneNumber}
                     onChange={(number) => setPhoneNumber(number)} />
+                {props.serverErrors.phoneNumber && <span role="alert" className="text-xs text-red-500 font-medium">{props.serverErrors.phoneNumber}</span>}
             </div>
 
             <Button
                 className='mt-8'
-                disabled={!expectedGraduation || !selectedMajor || !phoneNumber || !preview || isUploading}
+                disabled={!expectedGraduation || selectedMajors.length == 0 || !phoneNumber || (!preview && !avatarKey && !props.isPreview) || isUploading}
                 onClick={() => props.stepComplete({
-                    profileUrl: preview!,
+                    profileUrl: preview ?? "",
                     avatarKey: avatarKey,
-                    major: selectedMajor!,
+                    majors: selectedMajors,
+                    minors: selectedMinors,
                     expectedGrad: expectedGraduation,
                     phoneNumber: phoneNumber
                 })}
@@ -751,12 +1546,31 @@ const PersonalInfoStage = (props: PersonalInfoStageProps) => {
 
 const SlackJoinStage = (props: SlackJoinStageProps) => {
     const [slackJoinVerified, setSlackJoinVerified] = React.useState(props.defaultVerified)
+    const [verificationStatus, setVerificationStatus] = React.useState<SlackVerificationStatus>(props.defaultVerified ? "verified" : "idle")
     const [isLoading, setIsLoading] = React.useState(false);
+    const pollTimeoutRef = React.useRef<ReturnType<typeof setTimeout>>(undefined)
+    const pollAttemptRef = React.useRef(0)
+    const abortControllerRef = React.useRef<AbortController>(undefined)
+    /* A Check Resolving after the User Left mustn't Complete the Step */
+    const isUnmountedRef = React.useRef(false)
 
-    const verifyJoinStatus = () => {
-        setIsLoading(true)
-        fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/tools/verifyslack`, {
+    React.useEffect(() => {
+        isUnmountedRef.current = false
+        return () => {
+            isUnmountedRef.current = true
+            clearTimeout(pollTimeoutRef.current)
+            abortControllerRef.current?.abort()
+        }
+    }, [])
+
+    const checkMembership = async (): Promise<SlackVerificationStatus> => {
+        abortControllerRef.current?.abort()
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+
+        const res = await fetch(`${PEOPLEPORTAL_SERVER_ENDPOINT}/api/org/tools/verifyslack`, {
             method: "POST",
+            signal: controller.signal,
             headers: {
                 'Content-Type': 'application/json'
             },
@@ -764,23 +1578,109 @@ const SlackJoinStage = (props: SlackJoinStageProps) => {
             body: JSON.stringify({
                 email: props.email
             })
-        }).then(async (res) => {
-            if (!res.ok) {
-                throw new Error(res.statusText)
+        }).catch((e) => {
+            if (e.name === "AbortError")
+                throw e
+
+            throw new Error("Network error while verifying Slack", { cause: SLACK_CHECK_TRANSIENT })
+        })
+
+        if (!res.ok) {
+            const error = await res.json().catch(() => undefined) as APISlackVerifyError | undefined
+            switch (error?.code) {
+                case "SLACK_NOT_JOINED": return "not_joined"
+                case "SLACK_EMAIL_MISMATCH": return "email_mismatch"
+                default: throw new Error(error?.message ?? res.statusText, { cause: !error?.code && res.status >= 500 ? SLACK_CHECK_TRANSIENT : undefined })
             }
-            const status: boolean = await res.json()
-            if (status !== true)
-                throw new Error("Not Joined!")
+        }
 
-            setIsLoading(false)
-            setSlackJoinVerified(true)
+        const status: boolean = await res.json()
+        return (status === true) ? "verified" : "not_joined"
+    }
+
+    const handleVerified = () => {
+        if (isUnmountedRef.current)
+            return
+
+        clearTimeout(pollTimeoutRef.current)
+        setSlackJoinVerified(true)
+        setVerificationStatus("verified")
+        toast.success("Slack Membership Verified!")
+        props.stepComplete(true)
+    }
+
+    /* Counts an Inconclusive Check, Settling on finalStatus once the Attempts Run Out */
+    const scheduleNextPoll = (finalStatus: SlackVerificationStatus) => {
+        pollAttemptRef.current += 1
+        if (pollAttemptRef.current >= SLACK_POLL_MAX_ATTEMPTS) {
+            setVerificationStatus(finalStatus)
+            return
+        }
+
+        setVerificationStatus("polling")
+        const delay = Math.min(SLACK_POLL_INITIAL_DELAY_MS * 1.5 ** pollAttemptRef.current, SLACK_POLL_MAX_DELAY_MS)
+        if (!isUnmountedRef.current)
+            pollTimeoutRef.current = setTimeout(pollMembership, delay)
+    }
+
+    const pollMembership = () => {
+        checkMembership()
+            .then((status) => {
+                if (status === "verified") {
+                    handleVerified()
+                    return
+                }
+
+                /* A Mismatched Email needs the User to Act, Polling won't Fix it */
+                if (status === "email_mismatch") {
+                    setVerificationStatus(status)
+                    return
+                }
+
+                scheduleNextPoll(status)
+            })
+            .catch((e) => {
+                if (e.name === "AbortError")
+                    return
+
+                if (e.cause === SLACK_CHECK_TRANSIENT)
+                    scheduleNextPoll("error")
+                else
+                    setVerificationStatus("error")
+            })
+    }
+
+    const startPolling = () => {
+        if (props.isPreview)
+            return
+
+        clearTimeout(pollTimeoutRef.current)
+        pollAttemptRef.current = 0
+        setVerificationStatus("polling")
+        pollTimeoutRef.current = setTimeout(pollMembership, SLACK_POLL_INITIAL_DELAY_MS)
+    }
+
+    const verifyJoinStatus = () => {
+        if (props.isPreview) {
+            showPreviewNotice("Verifying Slack membership")
             props.stepComplete(true)
-        }).catch(() => {
-            setIsLoading(false)
-            toast.error("Verification Failed!", {
-                description: "We couldn't verify that you're in the App Dev Slack. Please make sure that you used the correct email address and invite link as mentioned in the instructions."
+            return
+        }
+
+        clearTimeout(pollTimeoutRef.current)
+        setIsLoading(true)
+        checkMembership()
+            .then((status) => {
+                if (status === "verified")
+                    handleVerified()
+                else
+                    setVerificationStatus(status)
             })
-        })
+            .catch((e) => {
+                if (e.name !== "AbortError")
+                    setVerificationStatus("error")
+            })
+            .finally(() => setIsLoading(false))
     }
 
     return (
@@ -795,51 +1695,255 @@ const SlackJoinStage = (props: SlackJoinStageProps) => {
                     <AlertDescription>
                         <span>
                             Please join App Dev's Slack Channel by
-                            <a className='text-blue-500' href={props.slackInviteLink} target="_blank" rel="noopener noreferrer"> clicking this link</a>.
+                            <a className='text-blue-500' href={props.slackInviteLink} target="_blank" rel="noopener noreferrer" onClick={startPolling}> clicking this link</a>.
                             You need to use the email address <b>{props.email}</b> to create or login to slack.
                             This portal validates your slack membership status by verifing your email address.
                         </span>
                     </AlertDescription>
                 </Alert>
 
-                <Button onClick={verifyJoinStatus} disabled={isLoading}>
-                    <Loader2Icon className={cn('animate-spin mr-2', !isLoading && 'hidden')} />
-                    Verify and Continue
-                </Button>
+                {verificationStatus === "polling" && (
+                    <p className='flex items-center gap-2 text-sm text-muted-foreground'>
+                        <Loader2Icon className='size-4 animate-spin' />
+                        Waiting for you to join, we'll continue automatically once you're in.
+                    </p>
+                )}
+
+                {verificationStatus === "not_joined" && (
+                    <Alert variant="default" className='w-lg'>
+                        <MessagesSquare />
+                        <AlertTitle>Not Joined Yet</AlertTitle>
+                        <AlertDescription>We haven't seen {props.email} join the App Dev Slack yet. Once you've joined, verify again below.</AlertDescription>
+                    </Alert>
+                )}
+
+                {verificationStatus === "email_mismatch" && (
+                    <Alert variant="destructive" className='w-lg'>
+                        <XCircleIcon />
+                        <AlertTitle>Email Doesn't Match</AlertTitle>
+                        <AlertDescription>
+                            It looks like you joined Slack with a different email address. Please sign in to Slack with {props.email}, then verify again.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                {verificationStatus === "error" && (
+                    <Alert variant="destructive" className='w-lg'>
+                        <XCircleIcon />
+                        <AlertTitle>Verification Unavailable</AlertTitle>
+                        <AlertDescription>We couldn't check your Slack membership right now. Please try again in a moment.</AlertDescription>
+                    </Alert>
+                )}
+
+                {slackJoinVerified ? (
+                    <Button onClick={() => props.stepComplete(true)}>
+                        <CheckCircle2Icon />
+                        Verified, Continue
+                    </Button>
+                ) : (
+                    <Button onClick={verifyJoinStatus} disabled={isLoading}>
+                        <Loader2Icon className={cn('animate-spin mr-2', !isLoading && 'hidden')} />
+                        Verify and Continue
+                    </Button>
+                )}
             </div>
         </div>
     )
 }
 
+const LegalDocumentCard = (props: LegalDocumentCardProps) => {
+    const [readToEnd, setReadToEnd] = React.useState(props.accepted);
+    const [viewerState, setViewerState] = React.useState<"loading" | "ready" | "failed">("loading");
+    const pagesRef = React.useRef<HTMLDivElement>(null);
+
+    const onHashedRef = React.useRef(props.onHashed);
+    onHashedRef.current = props.onHashed;
+
+    React.useEffect(() => {
+        const pages = pagesRef.current
+        if (!pages) return
+
+        let cancelled = false
+        setViewerState("loading")
+        fetchLegalDocument(props.document.url)
+            .then(async ({ data, hash }) => {
+                const canvases = await renderPDFPages(data, pages.clientWidth)
+                if (cancelled) return
+                pages.replaceChildren(...canvases)
+                onHashedRef.current(hash)
+                setViewerState("ready")
+            })
+            .catch(() => {
+                if (!cancelled) setViewerState("failed")
+            })
+
+        return () => { cancelled = true }
+    }, [props.document.url])
+
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        /* Only Counts once Every Page is Drawn, otherwise the Box is Shorter than the Document */
+        const { scrollTop, clientHeight, scrollHeight } = e.currentTarget
+        if (viewerState === "ready" && scrollTop + clientHeight >= scrollHeight - 8)
+            setReadToEnd(true)
+    }
+
+    return (
+        <Card className='w-full gap-4 py-4'>
+            <CardHeader className='px-4'>
+                <CardTitle className='flex items-center gap-2'>
+                    {props.document.title}
+                    <Badge variant="secondary">v{props.document.version}</Badge>
+                </CardTitle>
+                {props.document.description && <CardDescription>{props.document.description}</CardDescription>}
+            </CardHeader>
+
+            <CardContent className='flex flex-col gap-4 px-4'>
+                <div className='relative h-80 overflow-y-auto rounded-md border' onScroll={handleScroll} aria-label={props.document.title}>
+                    {/* Pages are Drawn Outside of React, so this Element must not Render Children */}
+                    <div ref={pagesRef} className='flex flex-col gap-2 bg-muted' />
+
+                    {viewerState === "loading" && (
+                        <div className='absolute inset-0 flex items-center justify-center text-sm text-muted-foreground gap-2'>
+                            <Loader2Icon className='animate-spin' />
+                            Loading Document...
+                        </div>
+                    )}
+
+                    {viewerState === "failed" && (
+                        <div className='absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-muted-foreground'>
+                            We couldn't display this document here. Please open it in a new tab to read it before accepting.
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-start gap-3">
+                    <Checkbox
+                        id={`accept-${props.document.id}`}
+                        checked={props.accepted}
+                        disabled={!readToEnd}
+                        onCheckedChange={(checked) => props.onAcceptedChange(checked as boolean)}
+                    />
+                    <div className="grid gap-1">
+                        <Label htmlFor={`accept-${props.document.id}`}>Accept {props.document.title}</Label>
+                        <p className="text-muted-foreground text-sm">
+                            {readToEnd ?
+                                "By clicking this checkbox and signing below, you agree to have signed this document with App Dev Club LLC." :
+                                "Scroll to the end of the document to accept it."}
+                            {" "}
+                            <a
+                                className='underline'
+                                href={props.document.url}
+                                target='_blank'
+                                rel='noreferrer'
+                                onClick={() => viewerState === "failed" && setReadToEnd(true)}
+                            >
+                                Open in a New Tab
+                            </a>
+                        </p>
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
+
 const ProprietaryInformationStage = (props: ProprietaryInformationStageProps) => {
-    const [agreementSigned, setAgreementSigned] = React.useState(props.defaultSigned);
+    const defaultSignature = props.defaultSignatures.at(0)
+    const [acceptedDocuments, setAcceptedDocuments] = React.useState<string[]>(
+        props.documents
+            .filter((document) => props.defaultSignatures.some((signature) => signature.documentId === document.id && signature.agreementVersion === document.version) ||
+                props.defaultProgress?.acceptedDocuments.includes(document.id))
+            .map((document) => document.id)
+    );
+    const [signatureMethod, setSignatureMethod] = React.useState<AgreementSignature["method"]>(defaultSignature?.method ?? "typed");
+    const [typedName, setTypedName] = React.useState(defaultSignature?.method === "typed" ? defaultSignature.signerName : props.defaultProgress?.typedName ?? "");
+    const [drawnSignature, setDrawnSignature] = React.useState<string | null>(null);
+    const [isLoading, setIsLoading] = React.useState(false);
+    const [documentHashes, setDocumentHashes] = React.useState<{ [documentId: string]: string }>({});
+
+    const allAccepted = props.documents.every((document) => acceptedDocuments.includes(document.id))
+
+    const { onProgressChange } = props
+    React.useEffect(() => {
+        onProgressChange({ acceptedDocuments, typedName })
+    }, [acceptedDocuments, typedName, onProgressChange])
+    const hasSignature = (signatureMethod === "typed") ? typedName.trim().length > 1 : drawnSignature != null
+
+    const handleAcceptedChange = (documentId: string, accepted: boolean) => {
+        setAcceptedDocuments((existing) => accepted ?
+            [...existing, documentId] :
+            existing.filter((el) => el !== documentId))
+    }
+
+    const handleSign = () => {
+        /* Every Document is Hashed so the Record Proves which Bytes were Signed, Ones Read in a New Tab are Fetched again */
+        const signedAt = new Date().toISOString()
+        setIsLoading(true)
+        Promise.all(props.documents.map(async (document): Promise<AgreementSignature> => ({
+            documentId: document.id,
+            method: signatureMethod,
+            signerName: (signatureMethod === "typed") ? typedName.trim() : props.signerName,
+            signatureImage: (signatureMethod === "drawn") ? drawnSignature ?? undefined : undefined,
+            agreementVersion: document.version,
+            agreementHash: documentHashes[document.id] ?? (await fetchLegalDocument(document.url)).hash,
+            signedAt
+        })))
+            .then(props.stepComplete)
+            .catch(() => {
+                toast.error("Failed to Sign Agreements!", {
+                    description: "We couldn't verify the agreement documents. Please check your connection and try again."
+                })
+            })
+            .finally(() => setIsLoading(false))
+    }
 
     return (
-        <div className='flex flex-col h-full w-full justify-center items-center p-12'>
-            <CardTitle>Intellectual Property Agreement</CardTitle>
-            <CardDescription className='text-center'>This legal agreement helps us transfer the technology that you've helped develop directly to our sponsor companies.</CardDescription>
+        <div className='flex flex-col h-full w-full items-center p-12 overflow-y-auto'>
+            <CardTitle>Legal Agreements</CardTitle>
+            <CardDescription className='text-center'>Please read and accept each of the following documents, then sign once to complete them all.</CardDescription>
 
-            <div className='flex flex-col items-center gap-4 mt-5 w-full flex-grow-1'>
-                <iframe
-                    className='w-[100%] h-[100%] rounded-md'
-                    src='/IntellectualPropertyAgreement.pdf'
-                    style={{
-                        border: 'none'
-                    }}
-                />
+            {props.serverError && (
+                <Alert variant="destructive" className='mt-5'>
+                    <TriangleAlertIcon />
+                    <AlertTitle>Please Sign Again</AlertTitle>
+                    <AlertDescription>{props.serverError}</AlertDescription>
+                </Alert>
+            )}
+
+            <div className='flex flex-col items-center gap-4 mt-5 w-full'>
+                {props.documents.map((document) => (
+                    <LegalDocumentCard
+                        key={document.id}
+                        document={document}
+                        accepted={acceptedDocuments.includes(document.id)}
+                        onAcceptedChange={(accepted) => handleAcceptedChange(document.id, accepted)}
+                        onHashed={(hash) => setDocumentHashes((existing) => ({ ...existing, [document.id]: hash }))}
+                    />
+                ))}
             </div>
 
-            <div className="flex w-full items-start gap-3 mt-5">
-                <Checkbox checked={agreementSigned} id="terms" onCheckedChange={(checked) => setAgreementSigned(checked as boolean)} />
-                <div className="grid flex-grow-1">
-                    <Label htmlFor="terms">Accept Agreement</Label>
-                    <p className="text-muted-foreground text-sm">
-                        By clicking this checkbox, you agree to have signed the aforementioned Intellectual Property Agreement
-                        with App Dev Club LLC.
-                    </p>
-                </div>
+            <div className='grid gap-2 w-full mt-5'>
+                <Label>Your Signature</Label>
+                <Tabs value={signatureMethod} onValueChange={(value) => setSignatureMethod(value as AgreementSignature["method"])}>
+                    <TabsList>
+                        <TabsTrigger value="typed">Type your Name</TabsTrigger>
+                        <TabsTrigger value="drawn">Draw Signature</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="typed" className='flex flex-col gap-2'>
+                        <Input value={typedName} onChange={(e) => setTypedName(e.target.value)} placeholder={`Ex. ${props.signerName}`} />
+                        <p className='h-12 font-serif italic text-3xl border-b truncate'>{typedName}</p>
+                    </TabsContent>
+                    <TabsContent value="drawn">
+                        <SignaturePad onChange={setDrawnSignature} />
+                    </TabsContent>
+                </Tabs>
+            </div>
 
-                <Button onClick={() => { props.stepComplete(agreementSigned) }} disabled={!agreementSigned}>Continue</Button>
+            <div className='flex w-full justify-end mt-5'>
+                <Button onClick={handleSign} disabled={!allAccepted || !hasSignature || isLoading}>
+                    <Loader2Icon className={cn('animate-spin', !isLoading && 'hidden')} />
+                    Sign and Continue
+                </Button>
             </div>
         </div>
     )
@@ -850,7 +1954,18 @@ const CreatePasswordStage = (props: CreatePasswordStageProps) => {
     const [confirmPassword, setConfirmPassword] = React.useState(props.defaultPassword)
     const [isInputFocused, setIsInputFocused] = React.useState(false)
 
-    const strengthResult = React.useMemo(() => zxcvbn(password), [password])
+    const [breachStatus, setBreachStatus] = React.useState<"idle" | "checking" | "clean" | "breached" | "unavailable">("idle")
+
+    /* Penalize Passwords Built from the Invitee's own Details */
+    const userInputs = React.useMemo(() => [
+        props.name,
+        ...props.name.split(/\s+/),
+        props.email,
+        props.email.split("@")[0],
+        ...(props.policy.bannedWords ?? [])
+    ].filter((el) => el.length > 0), [props.name, props.email, props.policy])
+
+    const strengthResult = React.useMemo(() => zxcvbn(password, userInputs), [password, userInputs])
     const strengthScore = strengthResult.score
     const strengthPercentage = (strengthScore + 1) * 20
 
@@ -876,12 +1991,69 @@ const CreatePasswordStage = (props: CreatePasswordStageProps) => {
         }
     }
 
+    const policyRequirements: PasswordRequirement[] = [
+        ...getPasswordPolicyRequirements(password, props.policy),
+        { name: `${getStrengthLabel(props.policy.minStrength)} password strength`, status: strengthScore >= props.policy.minStrength }
+    ]
+
+    const policySatisfied = policyRequirements.every((req) => req.status)
+    React.useEffect(() => {
+        /* Only Check Candidates that Pass Everything Else, Debounced while Typing */
+        if (!props.policy.checkBreaches || !policySatisfied) {
+            setBreachStatus("idle")
+            return
+        }
+
+        const controller = new AbortController()
+        const timeout = setTimeout(() => {
+            setBreachStatus("checking")
+            isPasswordBreached(password, controller.signal)
+                .then((breached) => setBreachStatus(breached ? "breached" : "clean"))
+                .catch((e) => {
+                    /* Not Blocking, the Identity Provider Verifies again on Submit */
+                    if (e.name !== "AbortError")
+                        setBreachStatus("unavailable")
+                })
+        }, 500)
+
+        return () => {
+            clearTimeout(timeout)
+            controller.abort()
+        }
+    }, [password, policySatisfied, props.policy.checkBreaches])
+
+    if (props.policy.checkBreaches) {
+        policyRequirements.push({
+            name: (breachStatus === "unavailable") ? "Breach check unavailable, we'll verify on submit" :
+                (breachStatus === "breached") ? "Found in a known data breach, please choose another" : "Not found in known data breaches",
+            status: breachStatus === "clean" || breachStatus === "unavailable",
+            pending: breachStatus === "checking"
+        })
+    }
+
     const passwordRequirements = [
-        { name: "Minimum 12 characters", status: password.length >= 12 },
-        { name: "Fair password strength", status: strengthScore >= 2 },
+        ...policyRequirements,
         { name: "Passwords match", status: password === confirmPassword && password.length > 0 }
     ]
 
+    /* The Requirements Popover isn't Read Out while Typing, so Summarize Changes */
+    const announce = React.useContext(OnboardingAnnouncerContext)
+    const unmetCount = policyRequirements.filter((req) => !req.status && !req.pending).length
+    const hasPassword = password.length > 0
+    React.useEffect(() => {
+        if (!hasPassword)
+            return
+
+        const timeout = setTimeout(() => {
+            if (breachStatus === "breached")
+                announce("This password was found in a known data breach, please choose another")
+            else
+                announce(unmetCount == 0 ? "All password requirements met" : `${unmetCount} password requirement${unmetCount == 1 ? "" : "s"} remaining`)
+        }, 800)
+
+        return () => clearTimeout(timeout)
+    }, [unmetCount, breachStatus, hasPassword, announce])
+
     return (
         <div className='flex flex-col h-full w-full justify-center items-center p-12'>
             <CardTitle>Welcome to the {ORGANIZATION_NAME}!</CardTitle>
@@ -906,7 +2078,9 @@ const CreatePasswordStage = (props: CreatePasswordStageProps) => {
                                 id="password"
                                 type='password'
                                 value={password}
-                                placeholder='Minimum 12 characters'
+                                placeholder={`Minimum ${props.policy.minLength} characters`}
+                                aria-describedby="password-requirements"
+                                aria-invalid={!!props.serverError}
                                 onFocus={() => setIsInputFocused(true)}
                                 onBlur={() => setIsInputFocused(false)}
                                 onChange={(e) => setPassword(e.target.value)}
@@ -936,9 +2110,11 @@ const CreatePasswordStage = (props: CreatePasswordStageProps) => {
 
                                 <div className="space-y-1">
                                     <p className="text-xs font-medium text-muted-foreground mb-1.5">Requirements</p>
-                                    {passwordRequirements.filter(req => req.name !== "Passwords match").map((req, i) => (
+                                    {policyRequirements.map((req, i) => (
                                         <div key={i} className="flex items-center gap-2">
-                                            {req.status ? (
+                                            {req.pending ? (
+                                                <Loader2Icon className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+                                            ) : req.status ? (
                                                 <CheckCircle2Icon className="h-3.5 w-3.5 text-green-500" />
                                             ) : (
                                                 <div className="h-3.5 w-3.5 rounded-full border border-muted-foreground/30" />
@@ -952,6 +2128,15 @@ const CreatePasswordStage = (props: CreatePasswordStageProps) => {
                             </div>
                         </PopoverContent>
                     </Popover>
+                    <p id="password-requirements" className="sr-only">
+                        {policyRequirements.map((req) => `${req.name}: ${req.pending ? "checking" : req.status ? "met" : "not met"}`).join(". ")}
+                    </p>
+                    {props.serverError && (
+                        <div role="alert" className="flex items-center gap-2">
+                            <XCircleIcon className="h-3.5 w-3.5 text-red-500" />
+                            <span className="text-xs text-red-500 font-medium">{props.serverError}</span>
+                        </div>
+                    )}
                 </div>
 
                 <div className={'grid gap-2 w-lg'}>
@@ -961,29 +2146,32 @@ const CreatePasswordStage = (props: CreatePasswordStageProps) => {
                         type='password'
                         value={confirmPassword}
                         placeholder='Confirm your Password'
+                        aria-invalid={confirmPassword.length > 0 && password !== confirmPassword}
                         onChange={(e) => setConfirmPassword(e.target.value)}
                     />
-                    {confirmPassword.length > 0 && (
-                        <div className="flex items-center gap-2 mt-1">
-                            {password === confirmPassword ? (
-                                <>
-                                    <CheckCircle2Icon className="h-3.5 w-3.5 text-green-500" />
-                                    <span className="text-xs text-green-600 font-medium">Passwords match</span>
-                                </>
-                            ) : (
-                                <>
-                                    <XCircleIcon className="h-3.5 w-3.5 text-red-500" />
-                                    <span className="text-xs text-red-500 font-medium">Passwords do not match</span>
-                                </>
-                            )}
-                        </div>
-                    )}
+                    <div aria-live="polite">
+                        {confirmPassword.length > 0 && (
+                            <div className="flex items-center gap-2 mt-1">
+                                {password === confirmPassword ? (
+                                    <>
+                                        <CheckCircle2Icon className="h-3.5 w-3.5 text-green-500" />
+                                        <span className="text-xs text-green-600 font-medium">Passwords match</span>
+                                    </>
+                                ) : (
+                                    <>
+                                        <XCircleIcon className="h-3.5 w-3.5 text-red-500" />
+                                        <span className="text-xs text-red-500 font-medium">Passwords do not match</span>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </div>
                 </div>
             </div>
 
             {/* Next Step Stuff */}
             <Button
-                disabled={password.length < 12 || password != confirmPassword || strengthScore < 2} className='mt-8'
+                disabled={passwordRequirements.some((req) => !req.status)} className='mt-8'
                 onClick={() => { props.stepComplete(password) }}
             >
                 Continue Account Setup